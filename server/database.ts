@@ -0,0 +1,302 @@
+import Database from 'better-sqlite3';
+import {
+  SpeciesData,
+  DatasetInfo,
+  ValidationIssue,
+  DISTRIBUTION_COLUMNS,
+  REGIONS_MAP,
+  MACRO_REGION_NAMES,
+  MARINE_SECTORS
+} from '../src/types';
+import { ChecklistResult, parseChecklist } from '../src/services/dataService';
+
+// SQLite store for the checklists served by the API. Rows are imported through
+// parseChecklist, so the API returns exactly what the static site loads from CSV;
+// the full row is kept as JSON, with the fields used for searching copied into
+// their own columns and distribution records split out for per-region queries.
+
+// Stored as PRAGMA user_version; bump it with any change to SCHEMA. The tables
+// only hold what import-data derives from the CSV files, so a database made by
+// another version is emptied and recreated, ready for a new import.
+const SCHEMA_VERSION = 2;
+
+const DROP_TABLES = `
+  DROP TABLE IF EXISTS issues;
+  DROP TABLE IF EXISTS distribution;
+  DROP TABLE IF EXISTS taxa;
+  DROP TABLE IF EXISTS datasets;
+`;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS datasets (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    info TEXT NOT NULL,
+    header TEXT NOT NULL,
+    source TEXT NOT NULL,
+    imported_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS taxa (
+    id INTEGER PRIMARY KEY,
+    dataset TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    line INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    family TEXT NOT NULL,
+    genus TEXT NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS taxa_dataset ON taxa (dataset, line);
+  CREATE INDEX IF NOT EXISTS taxa_name ON taxa (name);
+  CREATE INDEX IF NOT EXISTS taxa_family ON taxa (family);
+  CREATE TABLE IF NOT EXISTS distribution (
+    taxon INTEGER NOT NULL REFERENCES taxa(id) ON DELETE CASCADE,
+    code TEXT NOT NULL,
+    status TEXT NOT NULL,
+    PRIMARY KEY (taxon, code)
+  );
+  CREATE INDEX IF NOT EXISTS distribution_code ON distribution (code, status);
+  CREATE TABLE IF NOT EXISTS issues (
+    dataset TEXT NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    record TEXT NOT NULL
+  );
+`;
+
+export type ChecklistDatabase = Database.Database;
+
+// Rows as the queries below select them
+interface DatasetRow {
+  info: string;
+  header: string;
+  source: string;
+}
+
+interface TaxonRow {
+  id: number;
+  record: string;
+}
+
+// A JSON record: a taxon or a validation issue
+interface RecordRow {
+  record: string;
+}
+
+interface StatusRow {
+  code: string;
+  status: string;
+}
+
+// Relative to the working directory; set CHECKLIST_DB to keep it elsewhere
+export const DATABASE_FILE = process.env.CHECKLIST_DB || 'checklist.sqlite';
+
+export function openDatabase(file: string): ChecklistDatabase {
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  if (db.pragma('user_version', { simple: true }) !== SCHEMA_VERSION) {
+    db.transaction(() => {
+      db.exec(DROP_TABLES);
+      db.exec(SCHEMA);
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+  }
+  return db;
+}
+
+export interface ImportSummary {
+  dataset: string;
+  taxa: number;
+  errors: number;
+  warnings: number;
+}
+
+// Replaces the stored datasets with those of the manifest, in manifest order;
+// datasets dropped from the manifest are removed. `readFile` returns the CSV text
+// of a manifest entry.
+export async function importChecklists(
+  db: ChecklistDatabase,
+  manifest: DatasetInfo[],
+  readFile: (dataset: DatasetInfo) => Promise<string>
+): Promise<ImportSummary[]> {
+  const parsed = await Promise.all(manifest.map(async dataset => ({
+    dataset,
+    result: await parseChecklist(await readFile(dataset), dataset)
+  })));
+
+  const insertDataset = db.prepare(
+    'INSERT INTO datasets (id, position, info, header, source, imported_at) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const insertTaxon = db.prepare(
+    'INSERT INTO taxa (dataset, line, name, family, genus, record) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const insertStatus = db.prepare('INSERT INTO distribution (taxon, code, status) VALUES (?, ?, ?)');
+  const insertIssue = db.prepare('INSERT INTO issues (dataset, record) VALUES (?, ?)');
+  const importedAt = new Date().toISOString();
+
+  // All or nothing: a failing dataset leaves the previous import in place
+  db.transaction(() => {
+    db.prepare('DELETE FROM datasets').run();
+    parsed.forEach(({ dataset, result }, position) => {
+      insertDataset.run(
+        dataset.id,
+        position,
+        JSON.stringify(dataset),
+        JSON.stringify(result.headers[dataset.id]),
+        JSON.stringify(result.sources[dataset.id]),
+        importedAt
+      );
+      result.data.forEach(row => {
+        const { lastInsertRowid } = insertTaxon.run(
+          dataset.id, row.Line, row["Nome Scientifico"], row.Famiglia ?? '', row.Genere ?? '', JSON.stringify(row)
+        );
+        DISTRIBUTION_COLUMNS
+          .filter(code => row[code] === 'y' || row[code] === '?')
+          .forEach(code => insertStatus.run(lastInsertRowid, code, row[code]));
+      });
+      result.issues.forEach(issue => insertIssue.run(dataset.id, JSON.stringify(issue)));
+    });
+  })();
+
+  return parsed.map(({ dataset, result }) => ({
+    dataset: dataset.id,
+    taxa: result.data.length,
+    errors: result.issues.filter(issue => issue.severity === 'error').length,
+    warnings: result.issues.filter(issue => issue.severity === 'warning').length
+  }));
+}
+
+export function listDatasets(db: ChecklistDatabase): DatasetInfo[] {
+  return db.prepare<[], Pick<DatasetRow, 'info'>>('SELECT info FROM datasets ORDER BY position').all()
+    .map(entry => JSON.parse(entry.info) as DatasetInfo);
+}
+
+// One dataset as the frontend loads it from CSV; null if it was never imported
+export function datasetChecklist(db: ChecklistDatabase, id: string): ChecklistResult | null {
+  const entry = db.prepare<[string], Omit<DatasetRow, 'info'>>('SELECT header, source FROM datasets WHERE id = ?').get(id);
+  if (!entry) return null;
+  const data = db.prepare<[string], RecordRow>('SELECT record FROM taxa WHERE dataset = ? ORDER BY line').all(id)
+    .map(row => JSON.parse(row.record) as SpeciesData);
+  const issues = db.prepare<[string], RecordRow>('SELECT record FROM issues WHERE dataset = ? ORDER BY rowid').all(id)
+    .map(row => JSON.parse(row.record) as ValidationIssue);
+  return { data, issues, headers: { [id]: JSON.parse(entry.header) }, sources: { [id]: JSON.parse(entry.source) } };
+}
+
+export interface TaxonQuery {
+  // Substring of the scientific name, family or genus
+  search?: string;
+  dataset?: string;
+  family?: string;
+  // Distribution column the taxon must be recorded in, with the status required
+  region?: string;
+  status?: 'y' | '?';
+  page: number;
+  pageSize: number;
+}
+
+export interface TaxonPage {
+  total: number;
+  page: number;
+  pageSize: number;
+  items: (SpeciesData & { id: number })[];
+}
+
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+// WHERE clause shared by the listing and the counts; the taxa table is aliased "t"
+function taxonFilter(query: Omit<TaxonQuery, 'page' | 'pageSize'>) {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  if (query.dataset) {
+    clauses.push('t.dataset = ?');
+    params.push(query.dataset);
+  }
+  if (query.family) {
+    clauses.push('t.family = ? COLLATE NOCASE');
+    params.push(query.family);
+  }
+  if (query.search) {
+    const pattern = `%${escapeLike(query.search)}%`;
+    clauses.push("(t.name LIKE ? ESCAPE '\\' OR t.family LIKE ? ESCAPE '\\' OR t.genus LIKE ? ESCAPE '\\')");
+    params.push(pattern, pattern, pattern);
+  }
+  if (query.region) {
+    clauses.push('t.id IN (SELECT taxon FROM distribution WHERE code = ? AND status = ?)');
+    params.push(query.region, query.status ?? 'y');
+  }
+  return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+const toTaxon = (entry: TaxonRow) => ({ id: entry.id, ...(JSON.parse(entry.record) as SpeciesData) });
+
+// Taxa in manifest and source order, one page at a time
+export function listTaxa(db: ChecklistDatabase, query: TaxonQuery): TaxonPage {
+  const { where, params } = taxonFilter(query);
+  const { total } = db.prepare<unknown[], { total: number }>(`SELECT COUNT(*) AS total FROM taxa t ${where}`).get(...params)!;
+  const items = db.prepare<unknown[], TaxonRow>(`
+    SELECT t.id, t.record FROM taxa t JOIN datasets d ON d.id = t.dataset
+    ${where}
+    ORDER BY d.position, t.line
+    LIMIT ? OFFSET ?
+  `).all(...params, query.pageSize, (query.page - 1) * query.pageSize).map(toTaxon);
+  return { total, page: query.page, pageSize: query.pageSize, items };
+}
+
+export function getTaxon(db: ChecklistDatabase, id: number) {
+  const entry = db.prepare<[number], TaxonRow>('SELECT id, record FROM taxa WHERE id = ?').get(id);
+  return entry ? toTaxon(entry) : null;
+}
+
+export type TerritoryKind = 'macroRegion' | 'region' | 'marineSector';
+
+const territoryKind = (code: string): TerritoryKind =>
+  code in MACRO_REGION_NAMES ? 'macroRegion' : code in MARINE_SECTORS ? 'marineSector' : 'region';
+
+// Si and Sa are both macro-regions and regions; their single column is reported as a macro-region
+const territoryName = (code: string) => MACRO_REGION_NAMES[code] ?? REGIONS_MAP[code] ?? MARINE_SECTORS[code];
+
+export interface TerritoryStatus {
+  code: string;
+  name: string;
+  kind: TerritoryKind;
+  status: string;
+}
+
+// Present and doubtful records of a taxon, in checklist column order; null for an unknown id
+export function taxonDistribution(db: ChecklistDatabase, id: number): TerritoryStatus[] | null {
+  if (!db.prepare('SELECT 1 FROM taxa WHERE id = ?').get(id)) return null;
+  const statuses = new Map<string, string>(
+    db.prepare<[number], StatusRow>('SELECT code, status FROM distribution WHERE taxon = ?').all(id)
+      .map(entry => [entry.code, entry.status])
+  );
+  return DISTRIBUTION_COLUMNS
+    .filter(code => statuses.has(code))
+    .map(code => ({ code, name: territoryName(code), kind: territoryKind(code), status: statuses.get(code)! }));
+}
+
+export interface TerritoryCount {
+  code: string;
+  name: string;
+  kind: TerritoryKind;
+  present: number;
+  doubtful: number;
+}
+
+// Taxa present and doubtful in every distribution column, zeros included
+export function territoryCounts(db: ChecklistDatabase, query: Omit<TaxonQuery, 'page' | 'pageSize' | 'region' | 'status'>): TerritoryCount[] {
+  const { where, params } = taxonFilter(query);
+  const rows = db.prepare<unknown[], { code: string; present: number; doubtful: number }>(`
+    SELECT dist.code AS code,
+      SUM(dist.status = 'y') AS present,
+      SUM(dist.status = '?') AS doubtful
+    FROM distribution dist JOIN taxa t ON t.id = dist.taxon
+    ${where}
+    GROUP BY dist.code
+  `).all(...params);
+  const byCode = new Map(rows.map(row => [row.code, row]));
+  return DISTRIBUTION_COLUMNS.map(code => ({
+    code,
+    name: territoryName(code),
+    kind: territoryKind(code),
+    present: byCode.get(code)?.present ?? 0,
+    doubtful: byCode.get(code)?.doubtful ?? 0
+  }));
+}
@@ -0,0 +1,31 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { DatasetInfo } from '../src/types';
+import { DATABASE_FILE, openDatabase, importChecklists } from './database';
+
+// Imports the checklists of public/datasets.json into the API database:
+//   npm run import-data
+// Run it again whenever a CSV or the manifest changes; the server reads the
+// database as it was last imported.
+
+const PUBLIC_DIR = path.resolve('public');
+
+async function main() {
+  const manifest = JSON.parse(await readFile(path.join(PUBLIC_DIR, 'datasets.json'), 'utf8'));
+  const datasets = manifest.datasets as DatasetInfo[];
+  const db = openDatabase(DATABASE_FILE);
+  try {
+    const summary = await importChecklists(db, datasets, dataset => readFile(path.join(PUBLIC_DIR, dataset.file), 'utf8'));
+    summary.forEach(({ dataset, taxa, errors, warnings }) => {
+      console.log(`${dataset}: ${taxa} taxa, ${errors} errors, ${warnings} warnings`);
+    });
+    console.log(`Imported into ${DATABASE_FILE}`);
+  } finally {
+    db.close();
+  }
+}
+
+main().catch(err => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+import express from 'express';
+import { existsSync } from 'fs';
+import path from 'path';
+import {
+  DATABASE_FILE,
+  openDatabase,
+  listDatasets,
+  datasetChecklist,
+  listTaxa,
+  getTaxon,
+  taxonDistribution,
+  territoryCounts
+} from './database';
+
+// REST API over the imported checklists (see importData.ts), and the built
+// viewer when dist/ exists, so one process serves the internal deployment:
+//   DATA_API_URL=/api npm run build && npm run import-data && npm run server
+
+const PORT = Number(process.env.PORT) || 3001;
+// Same base path as the GitHub Pages build, see vite.config.ts
+const BASE_PATH = '/fauna_italia_viewer';
+const DIST_DIR = path.resolve('dist');
+
+const MAX_PAGE_SIZE = 500;
+// Keeps the row offset, (page - 1) * pageSize, a safe integer for SQLite
+const MAX_PAGE = Math.floor(Number.MAX_SAFE_INTEGER / MAX_PAGE_SIZE);
+
+class BadRequest extends Error {}
+
+// Query parameters arrive as strings, or arrays when repeated; only single values are accepted
+function textParam(value: unknown, name: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new BadRequest(`"${name}" must be given once`);
+  return value.trim() || undefined;
+}
+
+function integerParam(value: unknown, name: string, fallback: number, max: number): number {
+  const text = textParam(value, name);
+  if (text === undefined) return fallback;
+  const number = Number(text);
+  if (!Number.isSafeInteger(number) || number < 1 || number > max) {
+    throw new BadRequest(`"${name}" must be a whole number between 1 and ${max}`);
+  }
+  return number;
+}
+
+function statusParam(value: unknown): 'y' | '?' | undefined {
+  const text = textParam(value, 'status');
+  if (text !== undefined && text !== 'y' && text !== '?') throw new BadRequest('"status" must be "y" or "?"');
+  return text as 'y' | '?' | undefined;
+}
+
+const db = openDatabase(DATABASE_FILE);
+if (listDatasets(db).length === 0) {
+  console.warn(`No datasets in ${DATABASE_FILE}; run "npm run import-data" first`);
+}
+
+const app = express();
+const api = express.Router();
+
+api.get('/datasets', (req, res) => {
+  res.json({ datasets: listDatasets(db) });
+});
+
+// A whole dataset with its validation issues, as the viewer loads it from CSV
+api.get('/datasets/:id/checklist', (req, res) => {
+  const checklist = datasetChecklist(db, req.params.id);
+  if (!checklist) return res.status(404).json({ error: `Unknown dataset "${req.params.id}"` });
+  res.json(checklist);
+});
+
+// ?q=&dataset=&family=&region=&status=&page=&pageSize=
+api.get('/taxa', (req, res) => {
+  res.json(listTaxa(db, {
+    search: textParam(req.query.q, 'q'),
+    dataset: textParam(req.query.dataset, 'dataset'),
+    family: textParam(req.query.family, 'family'),
+    region: textParam(req.query.region, 'region'),
+    status: statusParam(req.query.status),
+    page: integerParam(req.query.page, 'page', 1, MAX_PAGE),
+    pageSize: integerParam(req.query.pageSize, 'pageSize', 50, MAX_PAGE_SIZE)
+  }));
+});
+
+api.get('/taxa/:id', (req, res) => {
+  const taxon = getTaxon(db, Number(req.params.id));
+  if (!taxon) return res.status(404).json({ error: `Unknown taxon "${req.params.id}"` });
+  res.json(taxon);
+});
+
+api.get('/taxa/:id/distribution', (req, res) => {
+  const distribution = taxonDistribution(db, Number(req.params.id));
+  if (!distribution) return res.status(404).json({ error: `Unknown taxon "${req.params.id}"` });
+  res.json(distribution);
+});
+
+// Present and doubtful taxa per territory: ?q=&dataset=&family=
+api.get('/regions/counts', (req, res) => {
+  res.json(territoryCounts(db, {
+    search: textParam(req.query.q, 'q'),
+    dataset: textParam(req.query.dataset, 'dataset'),
+    family: textParam(req.query.family, 'family')
+  }));
+});
+
+api.use((req, res) => {
+  res.status(404).json({ error: `No API endpoint at ${req.path}` });
+});
+
+api.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (err instanceof BadRequest) return res.status(400).json({ error: err.message });
+  console.error(err);
+  res.status(500).json({ error: 'Internal server error' });
+});
+
+app.use('/api', api);
+
+if (existsSync(DIST_DIR)) {
+  app.use(BASE_PATH, express.static(DIST_DIR));
+  app.get('/', (req, res) => res.redirect(`${BASE_PATH}/`));
+}
+
+app.listen(PORT, () => {
+  console.log(`Checklist API on http://localhost:${PORT}/api`);
+});
@@ -1,36 +1,322 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { loadAndProcessData } from './services/dataService';
-import { SpeciesData, RETAINED_COLUMNS } from './types';
+import { dataSource, loadChecklist, addImportedChecklist } from './services/dataSource';
+import { parseUrlState, writeUrlState } from './services/urlState';
+import { compileQuery } from './services/query';
+import { Filters, describeSelection } from './services/filters';
+import { CladeStep } from './services/taxonomy';
+import { selectRows } from './services/rowWorkerClient';
+import { computeSelection } from './services/rowSelection';
+import { MapLayer, MapResolution } from './services/mapLayers';
+import { isMacroRegion, macroOnlyQuery } from './services/macroRegions';
+import { CellEdit, applyEdits, revalidate, rowKey } from './services/curation';
+import { loadEdits, saveEdit, deleteEdit, clearEdits } from './services/changeLog';
+import { ChecklistResult } from './services/dataService';
+import { SourceRecord } from './services/validation';
+import { SpeciesData, DatasetInfo, ValidationIssue, SortKey, ViewMode, RETAINED_COLUMNS } from './types';
 import { TableView } from './components/TableView';
 import { MapView } from './components/MapView';
 import { Sidebar } from './components/Sidebar';
-import { Table as TableIcon, Map as MapIcon, Filter, Database } from 'lucide-react';
+import { DatasetPicker } from './components/DatasetPicker';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { SpeciesDetail } from './components/SpeciesDetail';
+import { QueryBar } from './components/QueryBar';
+import { FilterChips } from './components/FilterChips';
+import { TreeView } from './components/TreeView';
+import { AnalysisView } from './components/AnalysisView';
+import { ChorotypeChart } from './components/ChorotypeChart';
+import { SummaryView } from './components/SummaryView';
+import { CurationBar } from './components/CurationBar';
+import { VersionsView } from './components/VersionsView';
+import { ImportDialog } from './components/ImportDialog';
+import { DataStatus } from './components/DataStatus';
+import { Table as TableIcon, Map as MapIcon, ListTree, Grid3x3, BarChart3, GitCompare, Filter, Database, ShieldCheck, Upload } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 
+const sameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+const VIEW_OPTIONS: { mode: ViewMode; label: string; icon: typeof TableIcon }[] = [
+  { mode: 'table', label: 'Table', icon: TableIcon },
+  { mode: 'map', label: 'Map', icon: MapIcon },
+  { mode: 'tree', label: 'Tree', icon: ListTree },
+  { mode: 'analysis', label: 'Compare', icon: Grid3x3 },
+  { mode: 'summary', label: 'Summary', icon: BarChart3 },
+  { mode: 'versions', label: 'Versions', icon: GitCompare }
+];
+
+// Datasets requested by a link, or all of them if none of the requested ones exist
+const pickDatasets = (manifest: DatasetInfo[], requested: string[] | null) => {
+  const known = (requested || []).filter(id => manifest.some(d => d.id === id));
+  return known.length > 0 ? known : manifest.map(d => d.id);
+};
+
 export default function App() {
-  const [allData, setAllData] = useState<SpeciesData[]>([]);
+  const [initialUrlState] = useState(() => parseUrlState(window.location.hash));
+  // Rows and issues as loaded; the curator's edits are applied over them below
+  const [loadedData, setLoadedData] = useState<SpeciesData[]>([]);
+  const [headers, setHeaders] = useState<Record<string, string[]>>({});
+  const [sources, setSources] = useState<Record<string, SourceRecord[]>>({});
+  const [datasets, setDatasets] = useState<DatasetInfo[]>([]);
+  const [selectedDatasetIds, setSelectedDatasetIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
-  const [viewMode, setViewMode] = useState<'table' | 'map'>('table');
-  const [filters, setFilters] = useState<Record<string, string>>({});
-  const [selectedColumns, setSelectedColumns] = useState<string[]>(RETAINED_COLUMNS);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadIssues, setLoadIssues] = useState<ValidationIssue[]>([]);
+  const [showQuality, setShowQuality] = useState(false);
+  // The import dialog, with the file dropped on the page if any
+  const [importing, setImporting] = useState<{ file: File | null } | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>(initialUrlState.viewMode);
+  const [filters, setFilters] = useState<Filters>(initialUrlState.filters);
+  const [query, setQuery] = useState(initialUrlState.query);
+  const [clade, setClade] = useState<CladeStep[]>(initialUrlState.clade);
+  const [sortConfig, setSortConfig] = useState<SortKey[]>(initialUrlState.sortConfig);
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(initialUrlState.columns || RETAINED_COLUMNS);
+  const [selectedSpecies, setSelectedSpecies] = useState<string | null>(initialUrlState.species);
+  const [mapLayer, setMapLayer] = useState<MapLayer>(initialUrlState.mapLayer);
+  const [mapResolution, setMapResolution] = useState<MapResolution>(initialUrlState.mapResolution);
+  const [mapSea, setMapSea] = useState(initialUrlState.mapSea);
+  const [editing, setEditing] = useState(false);
+  const [edits, setEdits] = useState<CellEdit[]>([]);
+  const [redoStack, setRedoStack] = useState<CellEdit[]>([]);
 
+  // Edits left from earlier sessions; without IndexedDB they last until reload
   useEffect(() => {
-    loadAndProcessData().then(data => {
-      setAllData(data);
-      setLoading(false);
-    });
+    loadEdits().then(setEdits).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    dataSource.loadManifest()
+      .then(manifest => {
+        setDatasets(manifest);
+        setSelectedDatasetIds(pickDatasets(manifest, initialUrlState.datasets));
+        // Nothing to load: an API server before its first import, for one
+        if (manifest.length === 0) setLoading(false);
+      })
+      .catch(err => {
+        setLoadError(err.message);
+        setLoading(false);
+      });
   }, []);
 
-  const filteredData = useMemo(() => {
-    return allData.filter(row => {
-      return Object.entries(filters).every(([key, value]) => {
-        const val = value as string;
-        if (!val) return true;
-        const cellValue = String(row[key] || '').toLowerCase();
-        return cellValue.includes(val.toLowerCase());
+  useEffect(() => {
+    if (selectedDatasetIds.length === 0) return;
+    let cancelled = false;
+    const selected = datasets.filter(d => selectedDatasetIds.includes(d.id));
+    loadChecklist(selected)
+      .then(({ data, issues, headers, sources }) => {
+        if (cancelled) return;
+        setLoadedData(data);
+        setLoadIssues(issues);
+        setHeaders(headers);
+        setSources(sources);
+        setLoadError(null);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setLoadError(err.message);
+        setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [datasets, selectedDatasetIds]);
+
+  // Mirror the view into the address bar so it can be bookmarked and shared
+  useEffect(() => {
+    if (datasets.length === 0) return;
+    writeUrlState({
+      viewMode,
+      datasets: selectedDatasetIds.length === datasets.length ? null : selectedDatasetIds,
+      filters,
+      query,
+      clade,
+      sortConfig,
+      columns: sameList(selectedColumns, RETAINED_COLUMNS) ? null : selectedColumns,
+      species: selectedSpecies,
+      mapLayer,
+      mapResolution,
+      mapSea
+    }, { replace: loading });
+  }, [datasets, selectedDatasetIds, viewMode, filters, query, clade, sortConfig, selectedColumns, selectedSpecies, mapLayer, mapResolution, mapSea, loading]);
+
+  // Back/forward restore the state encoded in the entry being navigated to
+  useEffect(() => {
+    const onPopState = () => {
+      const state = parseUrlState(window.location.hash);
+      setViewMode(state.viewMode);
+      setFilters(state.filters);
+      setQuery(state.query);
+      setClade(state.clade);
+      setSortConfig(state.sortConfig);
+      setSelectedColumns(state.columns || RETAINED_COLUMNS);
+      setSelectedSpecies(state.species);
+      setMapLayer(state.mapLayer);
+      setMapResolution(state.mapResolution);
+      setMapSea(state.mapSea);
+      if (datasets.length > 0) setSelectedDatasetIds(pickDatasets(datasets, state.datasets));
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [datasets]);
+
+  const edited = useMemo(() => applyEdits(loadedData, edits, datasets), [loadedData, edits, datasets]);
+  const allData = edited.rows;
+  const issues = useMemo(
+    () => revalidate(loadIssues, loadedData, allData, datasets),
+    [loadIssues, loadedData, allData, datasets]
+  );
+  const originalRows = useMemo(
+    () => (editing ? new Map(loadedData.map(row => [rowKey(row), row])) : undefined),
+    [editing, loadedData]
+  );
+  const rowIssues = useMemo(() => {
+    if (!editing) return undefined;
+    const byRow = new Map<string, ValidationIssue[]>();
+    issues.forEach(issue => {
+      if (issue.line === undefined) return;
+      const key = `${issue.dataset}:${issue.line}`;
+      if (!byRow.has(key)) byRow.set(key, []);
+      byRow.get(key)!.push(issue);
+    });
+    return byRow;
+  }, [editing, issues]);
+
+  const handleEditCell = (row: SpeciesData, column: string, value: string) => {
+    const dataset = datasets.find(d => d.id === row.Dataset);
+    if (!dataset) return;
+    const edit: CellEdit = {
+      seq: Math.max(0, ...edits.map(e => e.seq)) + 1,
+      dataset: dataset.id,
+      version: dataset.version,
+      line: row.Line,
+      column,
+      before: String(row[column] ?? ''),
+      after: value,
+      at: new Date().toISOString()
+    };
+    setEdits(prev => [...prev, edit]);
+    setRedoStack([]);
+    saveEdit(edit).catch(() => {});
+  };
+
+  const handleUndo = () => {
+    const last = edits[edits.length - 1];
+    if (!last) return;
+    setEdits(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, last]);
+    deleteEdit(last.seq).catch(() => {});
+  };
+
+  const handleRedo = () => {
+    const next = redoStack[redoStack.length - 1];
+    if (!next) return;
+    setRedoStack(prev => prev.slice(0, -1));
+    setEdits(prev => [...prev, next]);
+    saveEdit(next).catch(() => {});
+  };
+
+  const handleDiscardEdits = () => {
+    if (!window.confirm('Discard all edits? Export them first to keep them.')) return;
+    setEdits([]);
+    setRedoStack([]);
+    clearEdits().catch(() => {});
+  };
+
+  // An imported checklist joins the datasets and is shown on its own
+  const handleImport = (dataset: DatasetInfo, result: ChecklistResult) => {
+    addImportedChecklist(dataset, result);
+    setDatasets(prev => [...prev, dataset]);
+    setSelectedDatasetIds([dataset.id]);
+    setImporting(null);
+  };
+
+  // Files dropped anywhere on the page open the import dialog
+  const handleDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    e.preventDefault();
+    setImporting({ file });
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z while editing, unless a text field has the keys
+  useEffect(() => {
+    if (!editing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const errorCount = useMemo(() => issues.filter(i => i.severity === 'error').length, [issues]);
+
+  const rowCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    allData.forEach(row => {
+      counts[row.Dataset] = (counts[row.Dataset] || 0) + 1;
+    });
+    return counts;
+  }, [allData]);
+
+  const compiledQuery = useMemo(() => compileQuery(query), [query]);
+
+  // Filtering and sorting run in a worker; the previous result stays on screen meanwhile
+  const [selection, setSelection] = useState<{ loaded: SpeciesData[]; scoped: SpeciesData[]; filtered: SpeciesData[] } | null>(null);
+  const [selecting, setSelecting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSelecting(true);
+    selectRows(allData, { query, filters, clade, sortConfig }).then(result => {
+      if (cancelled) return;
+      setSelection({
+        loaded: loadedData,
+        scoped: Array.from(result.scoped, i => allData[i]),
+        filtered: Array.from(result.filtered, i => allData[i])
       });
+      setSelecting(false);
     });
-  }, [allData, filters]);
+    return () => { cancelled = true; };
+  }, [loadedData, allData, query, filters, clade, sortConfig]);
+
+  // Until the worker answers for newly loaded rows there is no previous result
+  // to show, so the first one is computed here: filters restored from the URL
+  // apply from the first render
+  const shown = useMemo(() => {
+    if (selection?.loaded === loadedData) return selection;
+    const result = computeSelection(allData, { query, filters, clade, sortConfig });
+    return {
+      scoped: Array.from(result.scoped, i => allData[i]),
+      filtered: Array.from(result.filtered, i => allData[i])
+    };
+  }, [selection, loadedData, allData, query, filters, clade, sortConfig]);
+
+  // Rows matching the query and column filters; the tree is built from these
+  const scopedData = shown.scoped;
+  // ...further narrowed to the clade selected in the tree, in table order
+  const filteredData = shown.filtered;
+
+  // Title and data-version caption for exported maps
+  const selectionTitle = describeSelection(filters, query, clade);
+  const selectedDatasets = useMemo(
+    () => datasets.filter(d => selectedDatasetIds.includes(d.id)),
+    [datasets, selectedDatasetIds]
+  );
+  const dataCaption = useMemo(() => {
+    const versions = selectedDatasets.map(d => `${d.label} v${d.version} (${d.curator})`).join('; ');
+    return `Checklist of Italian Fauna — ${versions} · ${new Date().toISOString().slice(0, 10)}`;
+  }, [selectedDatasets]);
+
+  const selectedRow = useMemo(
+    () => allData.find(row => row["Nome Scientifico"] === selectedSpecies) || null,
+    [allData, selectedSpecies]
+  );
 
   const handleRegionClick = (regionCode: string) => {
     setFilters(prev => ({ ...prev, [regionCode]: 'y' }));
@@ -41,10 +327,22 @@ export default function App() {
     setFilters(prev => ({ ...prev, [col]: value }));
   };
 
-  const handleColumnToggle = (col: string) => {
-    setSelectedColumns(prev => 
-      prev.includes(col) ? prev.filter(c => c !== col) : [...prev, col]
-    );
+  const handleClearFilters = () => {
+    setFilters({});
+    setQuery('');
+    setClade([]);
+  };
+
+  // Narrows the current query to a subset picked in another view and opens the table
+  const handleShowQuery = (expression: string) => {
+    setQuery(query.trim() && compiledQuery.ok ? `(${query}) AND ${expression}` : expression);
+    setViewMode('table');
+  };
+
+  // In the macro-only layer a macro-region lists the taxa lacking a regional record there
+  const handleMapRegionClick = (code: string) => {
+    if (mapLayer.kind === 'macroOnly' && isMacroRegion(code)) handleShowQuery(macroOnlyQuery(code));
+    else handleRegionClick(code);
   };
 
   if (loading) {
@@ -58,13 +356,21 @@ export default function App() {
     );
   }
 
+  if (loadError && allData.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-zinc-50">
+        <p className="text-zinc-500 font-medium">Could not load species data: {loadError}</p>
+      </div>
+    );
+  }
+
   return (
-    <div className="flex h-screen bg-zinc-50 overflow-hidden font-sans">
-      {viewMode === 'map' && (
+    <div className="flex h-screen bg-zinc-50 overflow-hidden font-sans" onDragOver={handleDragOver} onDrop={handleDrop}>
+      {(viewMode === 'table' || viewMode === 'map') && (
         <Sidebar 
           data={allData}
           selectedColumns={selectedColumns}
-          onColumnToggle={handleColumnToggle}
+          onColumnsChange={setSelectedColumns}
           filters={filters}
           onFilterChange={handleFilterChange}
         />
@@ -84,62 +390,245 @@ export default function App() {
             </div>
           </div>
 
-          <div className="flex items-center bg-zinc-100 p-1 rounded-xl border border-zinc-200">
+          <div className="flex items-center gap-3">
+            {datasets.length > 0 && <DataStatus datasets={datasets} selectedIds={selectedDatasetIds} />}
             <button
-              onClick={() => setViewMode('table')}
-              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
-                viewMode === 'table' 
-                  ? 'bg-white text-zinc-900 shadow-sm' 
-                  : 'text-zinc-500 hover:text-zinc-700'
-              }`}
+              onClick={() => setImporting({ file: null })}
+              title="Load a checklist from a CSV, TSV or Excel file"
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-zinc-200 rounded-xl text-sm font-semibold text-zinc-700 hover:bg-zinc-50 transition-colors shadow-sm"
             >
-              <TableIcon size={18} />
-              Table
+              <Upload size={18} className="text-zinc-500" />
+              Import
             </button>
             <button
-              onClick={() => setViewMode('map')}
-              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
-                viewMode === 'map' 
-                  ? 'bg-white text-zinc-900 shadow-sm' 
-                  : 'text-zinc-500 hover:text-zinc-700'
-              }`}
+              onClick={() => setShowQuality(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-white border border-zinc-200 rounded-xl text-sm font-semibold text-zinc-700 hover:bg-zinc-50 transition-colors shadow-sm"
             >
-              <MapIcon size={18} />
-              Map
+              <ShieldCheck size={18} className={errorCount > 0 ? 'text-red-500' : issues.length > 0 ? 'text-amber-500' : 'text-emerald-500'} />
+              Data quality
+              {issues.length > 0 && (
+                <span className={`px-1.5 py-0.5 rounded-md text-xs ${errorCount > 0 ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-600'}`}>
+                  {issues.length}
+                </span>
+              )}
             </button>
+            {datasets.length > 0 && (
+              <DatasetPicker
+                datasets={datasets}
+                selectedIds={selectedDatasetIds}
+                rowCounts={rowCounts}
+                onChange={setSelectedDatasetIds}
+              />
+            )}
+            <div className="flex items-center bg-zinc-100 p-1 rounded-xl border border-zinc-200">
+              {VIEW_OPTIONS.map(({ mode, label, icon: Icon }) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    viewMode === mode 
+                      ? 'bg-white text-zinc-900 shadow-sm' 
+                      : 'text-zinc-500 hover:text-zinc-700'
+                  }`}
+                >
+                  <Icon size={18} />
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
         </header>
 
+        <QueryBar
+          query={query}
+          error={compiledQuery.ok ? null : compiledQuery.error}
+          matchCount={filteredData.length}
+          onChange={setQuery}
+        />
+
+        <FilterChips
+          filters={filters}
+          query={query}
+          clade={clade}
+          onFilterChange={handleFilterChange}
+          onQueryChange={setQuery}
+          onCladeChange={setClade}
+          onClearAll={handleClearFilters}
+        />
+
         <div className="flex-1 overflow-auto p-8">
-          <AnimatePresence mode="wait">
-            {viewMode === 'table' ? (
-              <motion.div
-                key="table"
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -10 }}
-                transition={{ duration: 0.2 }}
-                className="h-full"
-              >
-                <TableView data={filteredData} />
-              </motion.div>
-            ) : (
-              <motion.div
-                key="map"
-                initial={{ opacity: 0, scale: 0.98 }}
-                animate={{ opacity: 1, scale: 1 }}
-                exit={{ opacity: 0, scale: 1.02 }}
-                transition={{ duration: 0.3 }}
-                className="h-full flex flex-col gap-6"
-              >
-                <div className="flex-1">
-                  <MapView data={filteredData} onRegionClick={handleRegionClick} />
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
+          {datasets.length === 0 ? (
+            <div className="h-full flex items-center justify-center">
+              <div className="max-w-md text-center space-y-3">
+                <Database className="mx-auto text-zinc-300" size={40} />
+                <p className="text-lg font-semibold text-zinc-900">No checklists published yet</p>
+                <p className="text-sm text-zinc-500">
+                  The dataset manifest is empty. Use <span className="font-semibold text-zinc-700">Import</span> to
+                  open a checklist from a file, or, on the API server, run <code>npm run import-data</code> to load the published ones.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <AnimatePresence mode="wait">
+              {viewMode === 'table' && (
+                <motion.div
+                  key="table"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                  className="h-full flex flex-col gap-4"
+                >
+                  {editing && (
+                    <CurationBar
+                      edits={edits}
+                      canRedo={redoStack.length > 0}
+                      stale={edited.stale}
+                      original={loadedData}
+                      edited={allData}
+                      headers={headers}
+                      sources={sources}
+                      datasets={selectedDatasets}
+                      onUndo={handleUndo}
+                      onRedo={handleRedo}
+                      onDiscard={handleDiscardEdits}
+                    />
+                  )}
+                  <div className="flex-1 min-h-0">
+                    <TableView
+                      data={filteredData}
+                      columns={selectedColumns}
+                      onColumnsChange={setSelectedColumns}
+                      datasets={selectedDatasets}
+                      exportTitle={selectionTitle}
+                      exportCaption={dataCaption}
+                      filters={filters}
+                      onFilterChange={handleFilterChange}
+                      sortConfig={sortConfig}
+                      onSortChange={setSortConfig}
+                      updating={selecting}
+                      onRowClick={row => setSelectedSpecies(row["Nome Scientifico"])}
+                      editing={editing}
+                      onEditingChange={setEditing}
+                      onEditCell={handleEditCell}
+                      originalRows={originalRows}
+                      rowIssues={rowIssues}
+                    />
+                  </div>
+                </motion.div>
+              )}
+              {viewMode === 'map' && (
+                <motion.div
+                  key="map"
+                  initial={{ opacity: 0, scale: 0.98 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 1.02 }}
+                  transition={{ duration: 0.3 }}
+                  className="h-full flex flex-col gap-6"
+                >
+                  <div className="flex-1">
+                    <MapView
+                      data={filteredData}
+                      onRegionClick={handleMapRegionClick}
+                      exportTitle={selectionTitle}
+                      exportCaption={dataCaption}
+                      layer={mapLayer}
+                      onLayerChange={setMapLayer}
+                      resolution={mapResolution}
+                      onResolutionChange={setMapResolution}
+                      showSea={mapSea}
+                      onShowSeaChange={setMapSea}
+                    />
+                  </div>
+                  <ChorotypeChart
+                    data={filteredData}
+                    selected={mapLayer.kind === 'chorotypeShare' ? mapLayer.chorotype : null}
+                    onSelect={chorotype => setMapLayer({ kind: 'chorotypeShare', chorotype })}
+                  />
+                </motion.div>
+              )}
+              {viewMode === 'tree' && (
+                <motion.div
+                  key="tree"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                  className="h-full"
+                >
+                  <TreeView
+                    data={scopedData}
+                    clade={clade}
+                    onCladeChange={setClade}
+                    onShowClade={setViewMode}
+                  />
+                </motion.div>
+              )}
+              {viewMode === 'analysis' && (
+                <motion.div
+                  key="analysis"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                  className="h-full"
+                >
+                  <AnalysisView data={filteredData} onShowInTable={handleShowQuery} />
+                </motion.div>
+              )}
+              {viewMode === 'summary' && (
+                <motion.div
+                  key="summary"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                  className="h-full"
+                >
+                  <SummaryView data={filteredData} onSelectSpecies={row => setSelectedSpecies(row["Nome Scientifico"])} />
+                </motion.div>
+              )}
+              {viewMode === 'versions' && (
+                <motion.div
+                  key="versions"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                  className="h-full"
+                >
+                  <VersionsView datasets={selectedDatasets} data={allData} exportCaption={dataCaption} />
+                </motion.div>
+              )}
+            </AnimatePresence>
+          )}
         </div>
       </main>
+
+      {selectedRow && (
+        <SpeciesDetail
+          species={selectedRow}
+          exportCaption={dataCaption}
+          onClose={() => setSelectedSpecies(null)}
+          onRegionClick={code => {
+            setSelectedSpecies(null);
+            handleRegionClick(code);
+          }}
+        />
+      )}
+
+      {showQuality && (
+        <DataQualityPanel issues={issues} onClose={() => setShowQuality(false)} />
+      )}
+
+      {importing && (
+        <ImportDialog
+          initialFile={importing.file}
+          datasets={datasets}
+          onLoad={handleImport}
+          onClose={() => setImporting(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { SpeciesData, REGIONS_MAP } from '../types';
+import {
+  SimilarityMetric,
+  REGION_CODES,
+  similarityMatrix,
+  compareRegions,
+  presenceQuery,
+  absenceQuery
+} from '../services/similarity';
+import { Table as TableIcon } from 'lucide-react';
+
+interface AnalysisViewProps {
+  data: SpeciesData[];
+  onShowInTable: (query: string) => void;
+}
+
+const CELL = 26;
+const LABEL = 44;
+
+export const AnalysisView: React.FC<AnalysisViewProps> = ({ data, onShowInTable }) => {
+  const [metric, setMetric] = useState<SimilarityMetric>('jaccard');
+  const [includeDoubtful, setIncludeDoubtful] = useState(false);
+  const [regionA, setRegionA] = useState('Sa');
+  const [regionB, setRegionB] = useState('Cor');
+  const [hovered, setHovered] = useState<[number, number] | null>(null);
+
+  const matrix = useMemo(
+    () => similarityMatrix(data, metric, includeDoubtful),
+    [data, metric, includeDoubtful]
+  );
+
+  const comparison = useMemo(
+    () => compareRegions(data, regionA, regionB, includeDoubtful),
+    [data, regionA, regionB, includeDoubtful]
+  );
+
+  const colorScale = useMemo(() => {
+    return d3.scaleSequential()
+      .domain([0, 1])
+      .interpolator(d3.interpolateRgb("#f1f5f9", "#1065AB"));
+  }, []);
+
+  const size = LABEL + REGION_CODES.length * CELL;
+  const hoveredValue = hovered ? matrix[hovered[0]][hovered[1]] : null;
+
+  const sets = [
+    {
+      title: `Only ${REGIONS_MAP[regionA]}`,
+      rows: comparison.onlyA,
+      query: `${presenceQuery(regionA, includeDoubtful)} AND ${absenceQuery(regionB, includeDoubtful)}`
+    },
+    {
+      title: 'Shared',
+      rows: comparison.shared,
+      query: `${presenceQuery(regionA, includeDoubtful)} AND ${presenceQuery(regionB, includeDoubtful)}`
+    },
+    {
+      title: `Only ${REGIONS_MAP[regionB]}`,
+      rows: comparison.onlyB,
+      query: `${absenceQuery(regionA, includeDoubtful)} AND ${presenceQuery(regionB, includeDoubtful)}`
+    }
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center gap-6">
+        <div className="flex items-center bg-zinc-100 p-1 rounded-xl border border-zinc-200">
+          {(['jaccard', 'sorensen'] as SimilarityMetric[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-4 py-1.5 rounded-lg text-sm font-semibold transition-all ${
+                metric === m ? 'bg-white text-zinc-900 shadow-sm' : 'text-zinc-500 hover:text-zinc-700'
+              }`}
+            >
+              {m === 'jaccard' ? 'Jaccard' : 'Sørensen'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-600 cursor-pointer">
+          <input
+            type="checkbox"
+            className="w-4 h-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500"
+            checked={includeDoubtful}
+            onChange={(e) => setIncludeDoubtful(e.target.checked)}
+          />
+          Count doubtful records (?) as present
+        </label>
+        <span className="text-sm text-zinc-500">
+          Based on <span className="font-semibold text-zinc-900">{data.length}</span> taxa; species and each of their subspecies count as separate rows
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-8 items-start">
+        <div className="bg-white border border-zinc-200 rounded-xl shadow-sm p-4">
+          <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider mb-1">Similarity matrix</h3>
+          <p className="text-xs text-zinc-500 mb-4 h-4">
+            {hovered
+              ? `${REGIONS_MAP[REGION_CODES[hovered[0]]]} × ${REGIONS_MAP[REGION_CODES[hovered[1]]]}: ${hoveredValue === null ? 'no records' : hoveredValue.toFixed(2)}`
+              : 'Click a cell to compare the two regions'}
+          </p>
+          <svg width={size} height={size} className="font-mono">
+            {REGION_CODES.map((code, i) => (
+              <React.Fragment key={code}>
+                <text x={LABEL - 6} y={LABEL + i * CELL + CELL / 2 + 4} textAnchor="end" fontSize={10} fill="#71717a">{code}</text>
+                <text
+                  x={LABEL + i * CELL + CELL / 2}
+                  y={LABEL - 6}
+                  fontSize={10}
+                  fill="#71717a"
+                  transform={`rotate(-60 ${LABEL + i * CELL + CELL / 2} ${LABEL - 6})`}
+                >
+                  {code}
+                </text>
+              </React.Fragment>
+            ))}
+            {matrix.map((row, i) => row.map((value, j) => {
+              const selected = REGION_CODES[i] === regionA && REGION_CODES[j] === regionB;
+              return (
+                <rect
+                  key={`${i}-${j}`}
+                  x={LABEL + j * CELL}
+                  y={LABEL + i * CELL}
+                  width={CELL - 1}
+                  height={CELL - 1}
+                  rx={3}
+                  fill={value === null ? '#fafafa' : colorScale(value)}
+                  stroke={selected ? '#B31529' : 'none'}
+                  strokeWidth={2}
+                  className="cursor-pointer"
+                  onMouseEnter={() => setHovered([i, j])}
+                  onMouseLeave={() => setHovered(null)}
+                  onClick={() => {
+                    setRegionA(REGION_CODES[i]);
+                    setRegionB(REGION_CODES[j]);
+                  }}
+                />
+              );
+            }))}
+          </svg>
+          <div className="flex items-center gap-2 mt-4 text-[10px] text-zinc-500">
+            0
+            <div className="w-32 h-2 rounded-full bg-gradient-to-r from-[#f1f5f9] to-[#1065AB]"></div>
+            1
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-[480px] bg-white border border-zinc-200 rounded-xl shadow-sm p-4 space-y-4">
+          <div className="flex items-center gap-3">
+            <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider mr-auto">Two-region comparison</h3>
+            {[{ value: regionA, set: setRegionA }, { value: regionB, set: setRegionB }].map(({ value, set }, i) => (
+              <select
+                key={i}
+                value={value}
+                onChange={(e) => set(e.target.value)}
+                className="px-3 py-1.5 text-sm border border-zinc-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+              >
+                {REGION_CODES.map(code => (
+                  <option key={code} value={code}>{REGIONS_MAP[code]}</option>
+                ))}
+              </select>
+            ))}
+          </div>
+
+          <svg viewBox="0 0 400 160" className="w-full max-w-[400px] mx-auto">
+            <circle cx={150} cy={80} r={70} fill="#1065AB" fillOpacity={0.15} stroke="#1065AB" />
+            <circle cx={250} cy={80} r={70} fill="#B31529" fillOpacity={0.15} stroke="#B31529" />
+            <text x={115} y={86} textAnchor="middle" fontSize={20} fill="#18181b">{comparison.onlyA.length}</text>
+            <text x={200} y={86} textAnchor="middle" fontSize={20} fill="#18181b">{comparison.shared.length}</text>
+            <text x={285} y={86} textAnchor="middle" fontSize={20} fill="#18181b">{comparison.onlyB.length}</text>
+            <text x={150} y={156} textAnchor="middle" fontSize={10} fill="#71717a">{regionA}</text>
+            <text x={250} y={156} textAnchor="middle" fontSize={10} fill="#71717a">{regionB}</text>
+          </svg>
+
+          <div className="grid grid-cols-3 gap-4">
+            {sets.map(set => (
+              <div key={set.title} className="min-w-0 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="text-xs font-semibold text-zinc-600 uppercase tracking-wider truncate">
+                    {set.title} ({set.rows.length})
+                  </h4>
+                  <button
+                    onClick={() => onShowInTable(set.query)}
+                    disabled={set.rows.length === 0}
+                    title={set.query}
+                    className="p-1 text-zinc-400 hover:text-indigo-600 disabled:opacity-30"
+                  >
+                    <TableIcon size={14} />
+                  </button>
+                </div>
+                <ul className="max-h-72 overflow-y-auto text-sm text-zinc-700 space-y-1">
+                  {set.rows.map(row => (
+                    <li key={`${row.Dataset}-${row.Line}`} className="italic truncate">{row["Nome Scientifico"]}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
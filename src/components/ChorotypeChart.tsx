@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { SpeciesData } from '../types';
+import { chorotypeBreakdown, chorotypeColor, chorotypeName, chorotypeShortLabel } from '../services/chorotypes';
+
+interface ChorotypeChartProps {
+  data: SpeciesData[];
+  // Chorotype mapped by the share layer, highlighted in the chart
+  selected: string | null;
+  onSelect: (chorotype: string) => void;
+}
+
+export const ChorotypeChart: React.FC<ChorotypeChartProps> = ({ data, selected, onSelect }) => {
+  const breakdown = useMemo(() => chorotypeBreakdown(data), [data]);
+  const max = Math.max(...breakdown.map(c => c.count), 1);
+
+  if (data.length === 0) return null;
+
+  return (
+    <div className="bg-white border border-zinc-200 rounded-xl shadow-sm p-4">
+      <div className="flex items-baseline justify-between gap-4 mb-4">
+        <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider">Chorotypes</h3>
+        <span className="text-xs text-zinc-500">
+          {data.length} species · click a chorotype to map its share by region
+        </span>
+      </div>
+      <div className="space-y-1">
+        {breakdown.map(({ code, count }) => (
+          <button
+            key={code || 'unassigned'}
+            onClick={() => onSelect(code)}
+            disabled={!code}
+            title={code ? `Map the share of ${chorotypeName(code)} species` : 'Rows with no Corotipo'}
+            className={`w-full grid grid-cols-[88px_minmax(0,14rem)_1fr_72px] items-center gap-3 px-2 py-1 rounded-lg text-left text-sm transition-colors disabled:cursor-default ${
+              code && code === selected ? 'bg-zinc-100' : 'hover:bg-zinc-50'
+            }`}
+          >
+            <span className="font-mono text-xs text-zinc-500">{chorotypeShortLabel(code)}</span>
+            <span className="truncate text-zinc-700">{chorotypeName(code)}</span>
+            <span className="h-3 rounded-full bg-zinc-50">
+              <span
+                className="block h-full rounded-full"
+                style={{ width: `${(count / max) * 100}%`, backgroundColor: chorotypeColor(code) }}
+              ></span>
+            </span>
+            <span className="text-right text-xs text-zinc-500 tabular-nums">
+              {count} · {Math.round((count / data.length) * 100)}%
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
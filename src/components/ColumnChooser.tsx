@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import {
+  ColumnPreset,
+  AVAILABLE_COLUMNS,
+  BUILT_IN_PRESETS,
+  loadUserPresets,
+  saveUserPresets,
+  moveColumn
+} from '../services/columns';
+import { GripVertical, Trash2 } from 'lucide-react';
+
+interface ColumnChooserProps {
+  columns: string[];
+  onColumnsChange: (columns: string[]) => void;
+}
+
+const sameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+export const ColumnChooser: React.FC<ColumnChooserProps> = ({ columns, onColumnsChange }) => {
+  const [userPresets, setUserPresets] = useState<ColumnPreset[]>(loadUserPresets);
+  const [presetName, setPresetName] = useState('');
+  const [dragged, setDragged] = useState<string | null>(null);
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets];
+  const activePreset = presets.find(p => sameList(p.columns, columns));
+  const hidden = AVAILABLE_COLUMNS.filter(col => !columns.includes(col));
+  const nameTaken = BUILT_IN_PRESETS.some(p => p.name === presetName.trim());
+
+  const updatePresets = (next: ColumnPreset[]) => {
+    setUserPresets(next);
+    saveUserPresets(next);
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name || nameTaken) return;
+    updatePresets([...userPresets.filter(p => p.name !== name), { name, columns }]);
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={activePreset?.name ?? ''}
+            onChange={(e) => {
+              const preset = presets.find(p => p.name === e.target.value);
+              if (preset) onColumnsChange(preset.columns);
+            }}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-zinc-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+          >
+            {!activePreset && <option value="">Custom</option>}
+            {presets.map(p => (
+              <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+          </select>
+          {activePreset && !activePreset.builtIn && (
+            <button
+              onClick={() => updatePresets(userPresets.filter(p => p.name !== activePreset.name))}
+              title="Delete this preset"
+              className="p-1.5 text-zinc-400 hover:text-red-600"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+            placeholder="Save as preset…"
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-zinc-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!presetName.trim() || nameTaken}
+            title={nameTaken ? 'Built-in presets cannot be overwritten' : undefined}
+            className="px-2 py-1.5 text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-zinc-300"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+          Shown ({columns.length}) · drag to reorder
+        </div>
+        <div className="space-y-0.5">
+          {columns.map(col => (
+            <div
+              key={col}
+              draggable
+              onDragStart={() => setDragged(col)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragged) onColumnsChange(moveColumn(columns, dragged, col));
+                setDragged(null);
+              }}
+              onDragEnd={() => setDragged(null)}
+              className={`flex items-center gap-2 px-1 py-0.5 rounded group cursor-grab ${dragged === col ? 'opacity-40' : 'hover:bg-zinc-50'}`}
+            >
+              <GripVertical size={12} className="text-zinc-300 flex-shrink-0" />
+              <input
+                type="checkbox"
+                className="w-4 h-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500"
+                checked
+                disabled={columns.length === 1}
+                onChange={() => onColumnsChange(columns.filter(c => c !== col))}
+              />
+              <span className="text-sm text-zinc-600 group-hover:text-zinc-900 truncate" title={col}>{col}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {hidden.length > 0 && (
+        <div>
+          <div className="text-[10px] font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+            Hidden ({hidden.length})
+          </div>
+          <div className="space-y-0.5">
+            {hidden.map(col => (
+              <label key={col} className="flex items-center gap-2 pl-5 pr-1 py-0.5 group cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500"
+                  checked={false}
+                  onChange={() => onColumnsChange([...columns, col])}
+                />
+                <span className="text-sm text-zinc-500 group-hover:text-zinc-900 truncate" title={col}>{col}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
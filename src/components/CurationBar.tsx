@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { zipSync, strToU8 } from 'fflate';
+import { SpeciesData, DatasetInfo } from '../types';
+import { downloadBlob } from '../services/download';
+import { SourceRecord } from '../services/validation';
+import { CellEdit, RowChange, diffChecklists, toChangelog, changesToCsv, toChecklistCsv, checklistFileName } from '../services/curation';
+import { Undo2, Redo2, Trash2, Download, ChevronDown, AlertTriangle } from 'lucide-react';
+
+interface CurationBarProps {
+  edits: CellEdit[];
+  canRedo: boolean;
+  stale: CellEdit[];
+  // Loaded and edited rows of the selected datasets, in the same order
+  original: SpeciesData[];
+  edited: SpeciesData[];
+  headers: Record<string, string[]>;
+  // Source records, for writing the files back out with the rows that were not loaded
+  sources: Record<string, SourceRecord[]>;
+  datasets: DatasetInfo[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onDiscard: () => void;
+}
+
+type CurationExport = 'checklist' | 'changelog' | 'changes';
+
+const EXPORTS: { format: CurationExport; label: string; hint: string }[] = [
+  { format: 'checklist', label: 'Updated checklist', hint: 'Full CSV in the source layout; a zip for several datasets' },
+  { format: 'changelog', label: 'Changelog', hint: 'What changed, taxon by taxon (Markdown)' },
+  { format: 'changes', label: 'Changes as CSV', hint: 'One line per changed cell' }
+];
+
+const csvBlob = (csv: string) => new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+
+// One file per dataset, named as its source, zipped when there are several
+function checklistDownload(
+  changes: RowChange[],
+  datasets: DatasetInfo[],
+  headers: Record<string, string[]>,
+  sources: Record<string, SourceRecord[]>
+) {
+  const files = datasets.map(dataset => ({
+    name: checklistFileName(dataset),
+    csv: toChecklistCsv(
+      sources[dataset.id] ?? [],
+      headers[dataset.id] ?? [],
+      changes.filter(change => change.dataset === dataset.id)
+    )
+  }));
+  if (files.length === 1) return { blob: csvBlob(files[0].csv), filename: files[0].name };
+  const archive = zipSync(Object.fromEntries(files.map(file => [file.name, strToU8(file.csv)])));
+  return { blob: new Blob([archive], { type: 'application/zip' }), filename: 'checklist_edited.zip' };
+}
+
+export const CurationBar: React.FC<CurationBarProps> = ({
+  edits,
+  canRedo,
+  stale,
+  original,
+  edited,
+  headers,
+  sources,
+  datasets,
+  onUndo,
+  onRedo,
+  onDiscard
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = (format: CurationExport) => {
+    setOpen(false);
+    const changes = diffChecklists(original, edited, headers);
+    if (format === 'checklist') {
+      const { blob, filename } = checklistDownload(changes, datasets, headers, sources);
+      downloadBlob(blob, filename);
+      return;
+    }
+    if (format === 'changelog') {
+      const changelog = toChangelog(changes, datasets, new Date().toISOString().slice(0, 10));
+      downloadBlob(new Blob([changelog], { type: 'text/markdown;charset=utf-8;' }), 'checklist_changelog.md');
+    } else {
+      downloadBlob(csvBlob(changesToCsv(changes)), 'checklist_changes.csv');
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 bg-white border border-zinc-200 text-sm font-medium text-zinc-600 rounded-lg hover:bg-zinc-50 disabled:opacity-40 disabled:hover:bg-white transition-colors';
+
+  return (
+    <div className="flex items-center justify-between gap-4 px-4 py-3 bg-indigo-50 border border-indigo-200 rounded-xl">
+      <div className="flex items-center gap-3 text-sm text-indigo-900">
+        <span className="font-semibold">Editing</span>
+        <span>
+          {edits.length === 0
+            ? 'Click a status to cycle it, or a name, author, chorotype or note to change it'
+            : `${edits.length} edit${edits.length === 1 ? '' : 's'}, kept in this browser until discarded`}
+        </span>
+        {stale.length > 0 && (
+          <span
+            className="flex items-center gap-1 text-amber-700"
+            title="These edits were made on another version of the dataset and are not applied"
+          >
+            <AlertTriangle size={14} />
+            {stale.length} from an older version
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={onUndo} disabled={edits.length === 0} className={buttonClass} title="Undo (Ctrl+Z)">
+          <Undo2 size={14} />
+          Undo
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 size={14} />
+          Redo
+        </button>
+        <button onClick={onDiscard} disabled={edits.length === 0 && stale.length === 0} className={buttonClass}>
+          <Trash2 size={14} />
+          Discard
+        </button>
+        <div className="relative">
+          <button
+            onClick={() => setOpen(o => !o)}
+            className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            <Download size={14} />
+            Export edits
+            <ChevronDown size={14} />
+          </button>
+          {open && (
+            <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-zinc-200 rounded-xl shadow-xl overflow-hidden z-30">
+              {EXPORTS.map(({ format, label, hint }) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="w-full text-left px-4 py-2 hover:bg-zinc-50"
+                >
+                  <div className="text-sm font-medium text-zinc-900">{label}</div>
+                  <div className="text-xs text-zinc-500">{hint}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
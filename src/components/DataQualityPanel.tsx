@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { ValidationIssue, IssueSeverity } from '../types';
+import { AlertCircle, AlertTriangle, CheckCircle2, X } from 'lucide-react';
+
+interface DataQualityPanelProps {
+  issues: ValidationIssue[];
+  onClose: () => void;
+}
+
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ issues, onClose }) => {
+  const [severity, setSeverity] = useState<IssueSeverity | 'all'>('all');
+
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  const visibleIssues = useMemo(() => {
+    return issues
+      .filter(i => severity === 'all' || i.severity === severity)
+      .sort((a, b) =>
+        a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0)
+      );
+  }, [issues, severity]);
+
+  const tabs: { key: IssueSeverity | 'all'; label: string }[] = [
+    { key: 'all', label: `All (${issues.length})` },
+    { key: 'error', label: `Errors (${errorCount})` },
+    { key: 'warning', label: `Warnings (${warningCount})` }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-zinc-900/20" onClick={onClose}>
+      <aside
+        className="w-[560px] max-w-full h-full bg-white border-l border-zinc-200 shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-zinc-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-zinc-900">Data quality</h2>
+            <p className="text-xs text-zinc-500">Checks run on every loaded checklist file</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-zinc-500 hover:bg-zinc-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-zinc-100 flex gap-2">
+          {tabs.map(tab => (
+            <button
+              key={tab.key}
+              onClick={() => setSeverity(tab.key)}
+              className={`px-3 py-1 rounded-lg text-xs font-semibold transition-colors ${
+                severity === tab.key
+                  ? 'bg-zinc-900 text-white'
+                  : 'bg-zinc-100 text-zinc-600 hover:bg-zinc-200'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {visibleIssues.length === 0 ? (
+            <div className="p-8 flex flex-col items-center gap-3 text-zinc-500">
+              <CheckCircle2 className="text-emerald-500" size={32} />
+              <p className="text-sm">No issues found.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-zinc-100">
+              {visibleIssues.map((issue, i) => (
+                <li key={i} className="px-6 py-3 flex gap-3">
+                  {issue.severity === 'error'
+                    ? <AlertCircle className="text-red-500 flex-shrink-0 mt-0.5" size={16} />
+                    : <AlertTriangle className="text-amber-500 flex-shrink-0 mt-0.5" size={16} />}
+                  <div className="min-w-0">
+                    <p className="text-sm text-zinc-800">{issue.message}</p>
+                    <p className="text-xs text-zinc-400 font-mono">
+                      {issue.file}{issue.line !== undefined ? `:${issue.line}` : ''}
+                      {issue.column ? ` · ${issue.column}` : ''}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
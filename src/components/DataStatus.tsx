@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { DatasetInfo } from '../types';
+import { OfflineCopy, PublishedUpdate, offlineCopy, checkForUpdates, applyUpdate, updateReady, onUpdateReady } from '../services/offline';
+import { Cloud, CloudOff, CloudDownload, RefreshCw } from 'lucide-react';
+
+interface DataStatusProps {
+  // As listed in the loaded manifest, plus any imports
+  datasets: DatasetInfo[];
+  selectedIds: string[];
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en', { day: 'numeric', month: 'short', year: 'numeric' });
+const formatTime = (date: Date) => date.toLocaleTimeString('en', { hour: '2-digit', minute: '2-digit' });
+
+export const DataStatus: React.FC<DataStatusProps> = ({ datasets, selectedIds }) => {
+  const [open, setOpen] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [copy, setCopy] = useState<OfflineCopy | null>(null);
+  const [ready, setReady] = useState(updateReady);
+  const [checking, setChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  // Result of the last check, with its time
+  const [updates, setUpdates] = useState<{ found: PublishedUpdate[]; at: Date } | null>(null);
+
+  const check = () => {
+    setChecking(true);
+    setCheckError(null);
+    checkForUpdates(datasets)
+      .then(found => setUpdates({ found, at: new Date() }))
+      .catch(() => setCheckError('Could not reach the server'))
+      .finally(() => setChecking(false));
+  };
+
+  useEffect(() => {
+    offlineCopy().then(setCopy).catch(() => {});
+    return onUpdateReady(() => {
+      setReady(true);
+      offlineCopy().then(setCopy).catch(() => {});
+    });
+  }, []);
+
+  // Checked once the manifest is in, and again whenever the connection comes back
+  useEffect(() => {
+    if (datasets.length === 0) return;
+    if (navigator.onLine) check();
+    const handleOnline = () => { setOnline(true); check(); };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [datasets]);
+
+  const selected = datasets.filter(dataset => selectedIds.includes(dataset.id));
+  const available = ready || (updates?.found.length ?? 0) > 0;
+  const date = copy?.published ?? copy?.saved ?? null;
+
+  const label = !online
+    ? 'Offline'
+    : available
+      ? 'Update available'
+      : [selected.length === 1 ? `v${selected[0].version}` : null, date && formatDate(date)].filter(Boolean).join(' · ') || 'Data version';
+  const Icon = !online ? CloudOff : available ? CloudDownload : Cloud;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        title="Data version and offline copy"
+        className={`flex items-center gap-2 px-4 py-2 border rounded-xl text-sm font-semibold transition-colors shadow-sm ${
+          available && online
+            ? 'bg-indigo-50 border-indigo-200 text-indigo-700 hover:bg-indigo-100'
+            : 'bg-white border-zinc-200 text-zinc-700 hover:bg-zinc-50'
+        }`}
+      >
+        <Icon size={18} className={!online ? 'text-amber-500' : available ? 'text-indigo-600' : 'text-zinc-500'} />
+        {label}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-80 bg-white border border-zinc-200 rounded-xl shadow-xl overflow-hidden">
+          <div className="px-4 py-3 border-b border-zinc-100 space-y-1">
+            {selected.map(dataset => (
+              <div key={dataset.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-medium text-zinc-900">{dataset.label}</span>
+                <span className="text-xs text-zinc-500">v{dataset.version}</span>
+              </div>
+            ))}
+            <div className="text-xs text-zinc-500">
+              {copy
+                ? <>
+                    {copy.published && <>Published {formatDate(copy.published)} · </>}
+                    Saved for offline use {formatDate(copy.saved)}, {formatTime(copy.saved)}
+                  </>
+                : 'Not saved for offline use in this browser'}
+            </div>
+          </div>
+
+          <div className="px-4 py-3 space-y-2 text-sm">
+            {!online && (
+              <p className="text-amber-700">You are offline. The viewer works from the saved copy.</p>
+            )}
+            {checkError && online && <p className="text-red-600">{checkError}</p>}
+            {updates && updates.found.length > 0 && (
+              <div>
+                <p className="font-medium text-zinc-900">Newer checklists published</p>
+                <ul className="mt-1 space-y-0.5 text-xs text-zinc-600">
+                  {updates.found.map(({ dataset, current }) => (
+                    <li key={dataset.id}>
+                      {dataset.label}: {current === null ? `new, v${dataset.version}` : `v${current} → v${dataset.version}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {ready && updates?.found.length === 0 && (
+              <p className="text-zinc-700">A new release of the viewer is ready.</p>
+            )}
+            {updates && !available && !checkError && (
+              <p className="text-zinc-500">Up to date, checked at {formatTime(updates.at)}</p>
+            )}
+
+            <div className="flex items-center gap-2 pt-1">
+              <button
+                onClick={check}
+                disabled={!online || checking}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-zinc-200 text-sm font-medium text-zinc-600 rounded-lg hover:bg-zinc-50 disabled:opacity-40 disabled:hover:bg-white transition-colors"
+              >
+                <RefreshCw size={14} className={checking ? 'animate-spin' : ''} />
+                Check for updates
+              </button>
+              {available && (
+                <button
+                  onClick={() => applyUpdate()}
+                  disabled={!online && !ready}
+                  className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+                >
+                  Update now
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
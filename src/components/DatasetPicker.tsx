@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { DatasetInfo } from '../types';
+import { Layers, ChevronDown } from 'lucide-react';
+
+interface DatasetPickerProps {
+  datasets: DatasetInfo[];
+  selectedIds: string[];
+  rowCounts: Record<string, number>;
+  onChange: (ids: string[]) => void;
+}
+
+export const DatasetPicker: React.FC<DatasetPickerProps> = ({
+  datasets,
+  selectedIds,
+  rowCounts,
+  onChange
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const allSelected = selectedIds.length === datasets.length;
+
+  const toggleDataset = (id: string) => {
+    const next = selectedIds.includes(id)
+      ? selectedIds.filter(d => d !== id)
+      : [...selectedIds, id];
+    // Keep at least one dataset loaded
+    if (next.length > 0) onChange(next);
+  };
+
+  const label = allSelected
+    ? 'All datasets'
+    : selectedIds.length === 1
+      ? datasets.find(d => d.id === selectedIds[0])?.label ?? selectedIds[0]
+      : `${selectedIds.length} datasets`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-2 px-4 py-2 bg-white border border-zinc-200 rounded-xl text-sm font-semibold text-zinc-700 hover:bg-zinc-50 transition-colors shadow-sm"
+      >
+        <Layers size={18} />
+        {label}
+        <ChevronDown size={14} className={`transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-50 mt-2 w-80 bg-white border border-zinc-200 rounded-xl shadow-xl overflow-hidden">
+          <label className="flex items-center gap-3 px-4 py-3 border-b border-zinc-100 cursor-pointer hover:bg-zinc-50">
+            <input
+              type="checkbox"
+              className="w-4 h-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500"
+              checked={allSelected}
+              onChange={() => onChange(allSelected ? [datasets[0].id] : datasets.map(d => d.id))}
+            />
+            <span className="text-sm font-semibold text-zinc-900">All datasets</span>
+          </label>
+          <div className="max-h-80 overflow-y-auto divide-y divide-zinc-100">
+            {datasets.map(dataset => (
+              <label key={dataset.id} className="flex items-start gap-3 px-4 py-3 cursor-pointer hover:bg-zinc-50">
+                <input
+                  type="checkbox"
+                  className="mt-0.5 w-4 h-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500"
+                  checked={selectedIds.includes(dataset.id)}
+                  onChange={() => toggleDataset(dataset.id)}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-zinc-900">{dataset.label}</span>
+                    {rowCounts[dataset.id] !== undefined && (
+                      <span className="text-xs text-zinc-400">{rowCounts[dataset.id]} rows</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {dataset.taxon.rank}: {dataset.taxon.name} · v{dataset.version}
+                  </div>
+                  <div className="text-xs text-zinc-400 truncate">
+                    {dataset.curator} · {dataset.file}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { SpeciesData, DatasetInfo } from '../types';
+import { downloadBlob, openBlob } from '../services/download';
+import { toCsv, toJson, toXlsx, toGeoJson, toPrintableChecklist } from '../services/exporters';
+import { buildDarwinCoreArchive } from '../services/darwinCore';
+import { Download, ChevronDown } from 'lucide-react';
+
+interface ExportMenuProps {
+  rows: SpeciesData[];
+  columns: string[];
+  datasets: DatasetInfo[];
+  title: string;
+  caption: string;
+}
+
+type ExportFormat = 'csv' | 'xlsx' | 'json' | 'geojson' | 'dwca' | 'print';
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'csv', label: 'CSV', hint: 'Chosen columns' },
+  { format: 'xlsx', label: 'Excel (XLSX)', hint: 'One sheet per family' },
+  { format: 'json', label: 'JSON', hint: 'Array of records' },
+  { format: 'geojson', label: 'GeoJSON', hint: 'Species counts per region' },
+  { format: 'dwca', label: 'Darwin Core Archive', hint: 'Taxon + Distribution, for GBIF' },
+  { format: 'print', label: 'Printable checklist', hint: 'By family and genus; print or save as PDF' }
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ rows, columns, datasets, title, caption }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setError(null);
+    setBusy(true);
+    try {
+      switch (format) {
+        case 'csv':
+          downloadBlob(toCsv(rows, columns), 'species_filtered_data.csv');
+          break;
+        case 'xlsx':
+          downloadBlob(await toXlsx(rows, columns), 'species_filtered_data.xlsx');
+          break;
+        case 'json':
+          downloadBlob(toJson(rows, columns), 'species_filtered_data.json');
+          break;
+        case 'geojson':
+          downloadBlob(await toGeoJson(rows), 'species_region_counts.geojson');
+          break;
+        case 'dwca':
+          downloadBlob(buildDarwinCoreArchive(rows, datasets), 'species_dwca.zip');
+          break;
+        case 'print':
+          openBlob(toPrintableChecklist(rows, columns, title, caption), 'species_checklist.html');
+          break;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-3">
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={busy}
+        className="flex items-center gap-2 px-4 py-2 bg-zinc-900 text-white text-sm font-medium rounded-lg hover:bg-zinc-800 disabled:opacity-60 transition-colors shadow-sm"
+      >
+        <Download size={16} />
+        {busy ? 'Exporting…' : 'Export'}
+        <ChevronDown size={14} />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-white border border-zinc-200 rounded-xl shadow-xl overflow-hidden z-30">
+          {FORMATS.map(({ format, label, hint }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-4 py-2 hover:bg-zinc-50"
+            >
+              <div className="text-sm font-medium text-zinc-900">{label}</div>
+              <div className="text-xs text-zinc-500">{hint}</div>
+            </button>
+          ))}
+          <div className="px-4 py-2 border-t border-zinc-100 text-xs text-zinc-500">
+            {rows.length} rows · {columns.length} columns
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Filters, activeFilters } from '../services/filters';
+import { CladeStep } from '../services/taxonomy';
+import { REGIONS_MAP } from '../types';
+import { X } from 'lucide-react';
+
+interface FilterChipsProps {
+  filters: Filters;
+  query: string;
+  clade: CladeStep[];
+  onFilterChange: (col: string, value: string) => void;
+  onQueryChange: (query: string) => void;
+  onCladeChange: (clade: CladeStep[]) => void;
+  onClearAll: () => void;
+}
+
+export const FilterChips: React.FC<FilterChipsProps> = ({
+  filters,
+  query,
+  clade,
+  onFilterChange,
+  onQueryChange,
+  onCladeChange,
+  onClearAll
+}) => {
+  const active = activeFilters(filters);
+  if (active.length === 0 && !query && clade.length === 0) return null;
+
+  return (
+    <div className="bg-white border-b border-zinc-200 px-8 py-2 flex flex-wrap items-center gap-2">
+      <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mr-1">Active filters</span>
+      {active.map(([col, value]) => (
+        <span
+          key={col}
+          className="flex items-center gap-1 pl-3 pr-1 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-medium"
+          title={REGIONS_MAP[col]}
+        >
+          {col}: <span className="font-mono">{value}</span>
+          <button
+            onClick={() => onFilterChange(col, '')}
+            className="p-0.5 rounded-full hover:bg-indigo-100"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      {clade.length > 0 && (
+        <span className="flex items-center gap-1 pl-3 pr-1 py-1 bg-emerald-50 text-emerald-700 rounded-full text-xs font-medium">
+          {clade[clade.length - 1].rank}: {clade[clade.length - 1].name}
+          <button
+            onClick={() => onCladeChange([])}
+            className="p-0.5 rounded-full hover:bg-emerald-100"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      )}
+      {query && (
+        <span className="flex items-center gap-1 pl-3 pr-1 py-1 bg-zinc-100 text-zinc-700 rounded-full text-xs font-medium">
+          Query: <span className="font-mono">{query}</span>
+          <button
+            onClick={() => onQueryChange('')}
+            className="p-0.5 rounded-full hover:bg-zinc-200"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      )}
+      <button
+        onClick={onClearAll}
+        className="ml-auto text-xs font-semibold text-zinc-500 hover:text-zinc-900 transition-colors"
+      >
+        Clear all
+      </button>
+    </div>
+  );
+};
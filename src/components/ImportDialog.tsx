@@ -0,0 +1,309 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DatasetInfo, DISTRIBUTION_COLUMNS } from '../types';
+import { ChecklistResult } from '../services/dataService';
+import {
+  SourceTable,
+  IMPORT_ACCEPT,
+  IMPORT_TARGETS,
+  readTable,
+  suggestMapping,
+  importChecklist,
+  inferScope,
+  importedDatasetId,
+  missingTargets,
+  NAME_TARGET
+} from '../services/importer';
+import { Upload, X, AlertCircle, AlertTriangle } from 'lucide-react';
+
+interface ImportDialogProps {
+  // A file dropped on the page, read as soon as the dialog opens
+  initialFile: File | null;
+  datasets: DatasetInfo[];
+  onLoad: (dataset: DatasetInfo, result: ChecklistResult) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const fileLabel = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ initialFile, datasets, onLoad, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [table, setTable] = useState<SourceTable | null>(null);
+  const [mapping, setMapping] = useState<string[]>([]);
+  const [label, setLabel] = useState('');
+  const [curator, setCurator] = useState('');
+  const [version, setVersion] = useState('');
+  const [preview, setPreview] = useState<ChecklistResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const readFile = (next: File, sheet?: string) => {
+    setError(null);
+    readTable(next, sheet)
+      .then(result => {
+        setTable(result);
+        setMapping(suggestMapping(result.fields));
+      })
+      .catch(err => {
+        setTable(null);
+        setError(err instanceof Error ? err.message : `Could not read ${next.name}`);
+      });
+  };
+
+  const chooseFile = (next: File) => {
+    setFile(next);
+    setLabel(fileLabel(next));
+    setVersion(new Date(next.lastModified).toISOString().slice(0, 10));
+    readFile(next);
+  };
+
+  useEffect(() => {
+    if (initialFile) chooseFile(initialFile);
+  }, [initialFile]);
+
+  // Stands in for the dataset until it is loaded, so typing a label does not re-read the table
+  const previewDataset = useMemo<DatasetInfo | null>(
+    () => file && { id: 'import-preview', file: file.name, label: file.name, taxon: { rank: '', name: '' }, version: '', curator: '' },
+    [file]
+  );
+
+  // The mapped table run through the regular loader, for the preview and its checks
+  useEffect(() => {
+    if (!table || !previewDataset) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    importChecklist(table, mapping, previewDataset)
+      .then(result => {
+        if (cancelled) return;
+        setPreview(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setPreview(null);
+        setError(err instanceof Error ? err.message : 'Could not read the mapped columns');
+      });
+    return () => { cancelled = true; };
+  }, [table, mapping, previewDataset]);
+
+  const duplicates = mapping.filter((target, i) => target && mapping.indexOf(target) !== i);
+  const missing = missingTargets(mapping);
+  const errors = preview?.issues.filter(issue => issue.severity === 'error') ?? [];
+  const warnings = preview?.issues.filter(issue => issue.severity === 'warning') ?? [];
+  const canLoad = !!preview && preview.data.length > 0 && duplicates.length === 0 &&
+    missing.length === 0 && curator.trim() !== '';
+
+  const previewColumns = ["Famiglia", ...DISTRIBUTION_COLUMNS.filter(col => mapping.includes(col))];
+
+  const handleLoad = () => {
+    if (!canLoad || !preview || !table || !file) return;
+    const dataset: DatasetInfo = {
+      id: importedDatasetId(label || fileLabel(file), datasets),
+      file: file.name,
+      label: label.trim() || fileLabel(file),
+      taxon: inferScope(preview.data),
+      version: version.trim() || 'imported',
+      curator: curator.trim()
+    };
+    importChecklist(table, mapping, dataset)
+      .then(result => onLoad(dataset, result))
+      .catch(err => setError(err instanceof Error ? err.message : `Could not load ${file.name}`));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragging(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) chooseFile(dropped);
+  };
+
+  const samples = (index: number) =>
+    (table?.rows ?? []).map(row => row[index]).filter(Boolean).slice(0, 3).join(' · ');
+
+  const inputClass = 'w-full px-3 py-1.5 text-sm border border-zinc-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-zinc-900/20 p-8" onClick={onClose}>
+      <div
+        className="w-[960px] max-w-full max-h-full bg-white border border-zinc-200 rounded-2xl shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <div className="px-6 py-4 border-b border-zinc-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-zinc-900">Import a checklist</h2>
+            <p className="text-xs text-zinc-500">CSV, TSV or Excel; read in this browser and never uploaded</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-zinc-500 hover:bg-zinc-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          <label
+            className={`flex items-center justify-center gap-3 px-4 border-2 border-dashed rounded-xl text-sm cursor-pointer transition-colors ${
+              table ? 'py-3' : 'py-12'
+            } ${dragging ? 'border-indigo-400 bg-indigo-50 text-indigo-700' : 'border-zinc-200 text-zinc-500 hover:bg-zinc-50'}`}
+          >
+            <Upload size={18} />
+            {file ? `${file.name} · drop or choose another file` : 'Drop a CSV, TSV or Excel file here, or click to choose one'}
+            <input
+              type="file"
+              accept={IMPORT_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                const chosen = e.target.files?.[0];
+                if (chosen) chooseFile(chosen);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {table && file && (
+            <>
+              <div className="grid grid-cols-4 gap-4">
+                {table.sheets.length > 1 && (
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Sheet</span>
+                    <select value={table.sheet} onChange={(e) => readFile(file, e.target.value)} className={inputClass}>
+                      {table.sheets.map(sheet => <option key={sheet} value={sheet}>{sheet}</option>)}
+                    </select>
+                  </label>
+                )}
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Label</span>
+                  <input value={label} onChange={(e) => setLabel(e.target.value)} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Curator</span>
+                  <input value={curator} onChange={(e) => setCurator(e.target.value)} placeholder="Required" className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Version</span>
+                  <input value={version} onChange={(e) => setVersion(e.target.value)} className={inputClass} />
+                </label>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider mb-2">Columns</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-500 uppercase tracking-wider">
+                      <th className="py-1 pr-4 font-semibold">In the file</th>
+                      <th className="py-1 pr-4 font-semibold">Values</th>
+                      <th className="py-1 font-semibold w-72">Checklist column</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.fields.map((field, i) => (
+                      <tr key={i} className="border-t border-zinc-100">
+                        <td className="py-1.5 pr-4 font-medium text-zinc-900">{field || <span className="text-zinc-400">(no header)</span>}</td>
+                        <td className="py-1.5 pr-4 text-zinc-500 truncate max-w-[320px]">{samples(i)}</td>
+                        <td className="py-1.5">
+                          <select
+                            value={mapping[i] ?? ''}
+                            onChange={(e) => setMapping(prev => prev.map((target, j) => (j === i ? e.target.value : target)))}
+                            className={`${inputClass} ${duplicates.includes(mapping[i]) ? 'border-red-400' : ''}`}
+                          >
+                            <option value="">Leave out</option>
+                            {IMPORT_TARGETS.map(({ group, columns }) => (
+                              <optgroup key={group} label={group}>
+                                {columns.map(column => <option key={column} value={column}>{column}</option>)}
+                              </optgroup>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {(missing.length > 0 || duplicates.length > 0) && (
+                  <p className="mt-2 text-sm text-red-600">
+                    {missing.length > 0 && `Map a column to ${missing.join(' and ')}, or one to ${NAME_TARGET}. `}
+                    {duplicates.length > 0 && `${[...new Set(duplicates)].join(', ')} mapped more than once.`}
+                  </p>
+                )}
+              </div>
+
+              {preview && (
+                <div>
+                  <div className="flex items-center gap-4 mb-2">
+                    <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider">Preview</h3>
+                    <span className="text-sm text-zinc-500">{preview.data.length} taxa of {table.rows.length} rows</span>
+                    {errors.length > 0 && (
+                      <span className="flex items-center gap-1 text-sm text-red-600"><AlertCircle size={14} />{errors.length} errors</span>
+                    )}
+                    {warnings.length > 0 && (
+                      <span className="flex items-center gap-1 text-sm text-amber-600"><AlertTriangle size={14} />{warnings.length} warnings</span>
+                    )}
+                  </div>
+                  <div className="overflow-x-auto border border-zinc-200 rounded-lg">
+                    <table className="text-sm whitespace-nowrap">
+                      <thead className="bg-zinc-50">
+                        <tr>
+                          <th className="px-3 py-1.5 text-left font-semibold text-zinc-600">Nome Scientifico</th>
+                          <th className="px-3 py-1.5 text-left font-semibold text-zinc-600">Autore</th>
+                          {previewColumns.map(col => (
+                            <th key={col} className="px-3 py-1.5 text-left font-semibold text-zinc-600">{col}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.data.slice(0, PREVIEW_ROWS).map(row => (
+                          <tr key={row.Line} className="border-t border-zinc-100">
+                            <td className="px-3 py-1.5 italic text-zinc-900">{row["Nome Scientifico"]}</td>
+                            <td className="px-3 py-1.5 text-zinc-600">{row.Autore}</td>
+                            {previewColumns.map(col => (
+                              <td key={col} className="px-3 py-1.5 text-zinc-700">{row[col]}</td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {errors.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs text-red-600">
+                      {errors.slice(0, 5).map((issue, i) => (
+                        <li key={i}>{issue.line !== undefined && `Row ${issue.line}: `}{issue.message}</li>
+                      ))}
+                      {errors.length > 5 && <li>… and {errors.length - 5} more, listed under Data quality once loaded</li>}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-zinc-200 flex items-center justify-end gap-3">
+          {table && curator.trim() === '' && <span className="mr-auto text-xs text-zinc-500">Give the curator to load the checklist</span>}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-zinc-200 text-sm font-medium text-zinc-600 rounded-lg hover:bg-zinc-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleLoad}
+            disabled={!canLoad}
+            className="px-4 py-2 bg-zinc-900 text-white text-sm font-medium rounded-lg hover:bg-zinc-800 disabled:opacity-40 transition-colors shadow-sm"
+          >
+            Load {preview ? `${preview.data.length} taxa` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { QueryError } from '../services/query';
+import { Code2, HelpCircle, X } from 'lucide-react';
+
+interface QueryBarProps {
+  query: string;
+  error: QueryError | null;
+  matchCount: number;
+  onChange: (query: string) => void;
+}
+
+const EXAMPLES = [
+  { query: 'Sa=y AND Cor!=y', description: 'Present in Sardegna but not in Corsica' },
+  { query: '(Cal=? OR Si=?)', description: 'Doubtful in Calabria or Sicilia' },
+  { query: 'Famiglia=Oedemeridae AND End=e', description: 'Endemic Oedemeridae' },
+  { query: 'NOT N=y AND S=y', description: 'Southern but not northern' },
+  { query: '"Nome Scientifico"~ischnomera', description: 'Name contains "ischnomera"' }
+];
+
+export const QueryBar: React.FC<QueryBarProps> = ({ query, error, matchCount, onChange }) => {
+  const [showHelp, setShowHelp] = useState(false);
+
+  return (
+    <div className="bg-white border-b border-zinc-200 px-8 py-3 space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Code2 className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" size={16} />
+          <input
+            type="text"
+            spellCheck={false}
+            className={`w-full pl-9 pr-9 py-2 text-sm font-mono border rounded-lg focus:outline-none focus:ring-2 ${
+              error
+                ? 'border-red-300 focus:ring-red-500/20 focus:border-red-500'
+                : 'border-zinc-200 focus:ring-indigo-500/20 focus:border-indigo-500'
+            }`}
+            placeholder='Query, e.g. Sa=y AND Cor!=y'
+            value={query}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          {query && (
+            <button
+              onClick={() => onChange('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-zinc-400 hover:text-zinc-700"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+        {query && !error && (
+          <span className="text-xs text-zinc-500 whitespace-nowrap">{matchCount} matches</span>
+        )}
+        <button
+          onClick={() => setShowHelp(h => !h)}
+          className={`p-2 rounded-lg transition-colors ${showHelp ? 'bg-zinc-100 text-zinc-900' : 'text-zinc-400 hover:text-zinc-700'}`}
+        >
+          <HelpCircle size={18} />
+        </button>
+      </div>
+
+      {error && (
+        <div className="text-xs text-red-600 space-y-1">
+          <pre className="font-mono text-zinc-500">
+            {query}{'\n'}{' '.repeat(error.position)}<span className="text-red-600">^</span>
+          </pre>
+          <p>{error.message} (character {error.position + 1})</p>
+        </div>
+      )}
+
+      {showHelp && (
+        <div className="text-xs text-zinc-600 space-y-2">
+          <p>
+            Compare a column with <code className="font-mono">=</code>, <code className="font-mono">!=</code> or{' '}
+            <code className="font-mono">~</code> (contains) and combine with <code className="font-mono">AND</code>,{' '}
+            <code className="font-mono">OR</code>, <code className="font-mono">NOT</code> and parentheses. Distribution
+            columns take <code className="font-mono">y</code> (present), <code className="font-mono">?</code> (doubtful)
+            or <code className="font-mono">""</code> (absent). Quote column names that contain spaces.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {EXAMPLES.map(example => (
+              <button
+                key={example.query}
+                onClick={() => onChange(example.query)}
+                title={example.description}
+                className="px-2 py-1 font-mono bg-zinc-100 rounded-md hover:bg-zinc-200 transition-colors"
+              >
+                {example.query}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ITALY_SVG_PATHS, SPECIAL_REGIONS } from '../mapPaths';
+
+interface SchematicMapProps {
+  getColor: (code: string) => string;
+  onRegionClick: (regionCode: string) => void;
+  onRegionHover: (regionCode: string | null) => void;
+}
+
+// Hand-drawn fallback used when the region geometry cannot be loaded
+export const SchematicMap: React.FC<SchematicMapProps> = ({ getColor, onRegionClick, onRegionHover }) => {
+  return (
+    <svg viewBox="100 60 900 1330" className="w-full h-full">
+      {Object.entries(ITALY_SVG_PATHS).map(([code, d]) => (
+        <path
+          key={code}
+          d={d}
+          fill={getColor(code)}
+          stroke="#fff"
+          strokeWidth={2}
+          className="region-path cursor-pointer"
+          onClick={() => onRegionClick(code)}
+          onMouseEnter={() => onRegionHover(code)}
+          onMouseLeave={() => onRegionHover(null)}
+        />
+      ))}
+      {Object.entries(SPECIAL_REGIONS).map(([code, { x, y, label }]) => (
+        <g
+          key={code}
+          className="cursor-pointer"
+          onClick={() => onRegionClick(code)}
+          onMouseEnter={() => onRegionHover(code)}
+          onMouseLeave={() => onRegionHover(null)}
+        >
+          <circle cx={x} cy={y} r={12} fill={getColor(code)} stroke="#a8a29e" strokeWidth={1.5} />
+          <text x={x + 18} y={y + 5} fontSize={18} fill="#78716c">{label}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { SpeciesData } from '../types';
+import { NameForm, parseName, nameParts } from '../services/nomenclature';
+
+interface ScientificNameProps {
+  row: SpeciesData;
+  form: NameForm;
+  // Applied to the roman parts (qualifiers and authority)
+  romanClassName?: string;
+}
+
+export const ScientificName: React.FC<ScientificNameProps> = ({ row, form, romanClassName = '' }) => (
+  <>
+    {nameParts(parseName(row), form).map((part, i) => (
+      <React.Fragment key={i}>
+        {i > 0 && ' '}
+        {part.italic ? <i>{part.text}</i> : <span className={romanClassName}>{part.text}</span>}
+      </React.Fragment>
+    ))}
+  </>
+);
@@ -1,19 +1,25 @@
 import React, { useState, useMemo } from 'react';
 import { SpeciesData, RETAINED_COLUMNS, DISTRIBUTION_COLUMNS } from '../types';
+import { Filters, ANY_VALUE } from '../services/filters';
+import { SpeciesStatus, STATUS_COLUMNS, STATUS_LABELS } from '../services/speciesStatus';
+import { ColumnChooser } from './ColumnChooser';
+import { StatusBadge } from './StatusBadges';
 import { Search } from 'lucide-react';
 
+const STATUSES: SpeciesStatus[] = ['endemic', 'alien'];
+
 interface SidebarProps {
   data: SpeciesData[];
   selectedColumns: string[];
-  onColumnToggle: (col: string) => void;
-  filters: Record<string, string>;
+  onColumnsChange: (columns: string[]) => void;
+  filters: Filters;
   onFilterChange: (col: string, value: string) => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ 
   data, 
   selectedColumns, 
-  onColumnToggle, 
+  onColumnsChange, 
   filters, 
   onFilterChange 
 }) => {
@@ -35,25 +41,32 @@ export const Sidebar: React.FC<SidebarProps> = ({
   return (
     <div className="w-[500px] flex-shrink-0 bg-white border-r border-zinc-200 h-full overflow-y-auto p-6">
       <div className="grid grid-cols-2 gap-8">
-        <div>
+        <div className="min-w-0">
           <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider mb-4">Columns</h3>
-          <div className="space-y-2">
-            {sidebarColumns.map(col => (
-              <label key={col} className="flex items-center gap-3 group cursor-pointer">
-                <input
-                  type="checkbox"
-                  className="w-4 h-4 rounded border-zinc-300 text-indigo-600 focus:ring-indigo-500"
-                  checked={selectedColumns.includes(col)}
-                  onChange={() => onColumnToggle(col)}
-                />
-                <span className="text-sm text-zinc-600 group-hover:text-zinc-900 transition-colors">{col}</span>
-              </label>
-            ))}
-          </div>
+          <ColumnChooser columns={selectedColumns} onColumnsChange={onColumnsChange} />
         </div>
 
         <div>
           <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider mb-4">Filters</h3>
+          <div className="flex flex-wrap gap-2 mb-6">
+            {STATUSES.map(status => {
+              const col = STATUS_COLUMNS[status];
+              const active = filters[col] === ANY_VALUE;
+              return (
+                <button
+                  key={status}
+                  onClick={() => onFilterChange(col, active ? '' : ANY_VALUE)}
+                  aria-pressed={active}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                    active ? 'bg-zinc-900 border-zinc-900 text-white' : 'border-zinc-200 text-zinc-600 hover:bg-zinc-50'
+                  }`}
+                >
+                  <StatusBadge status={status} compact />
+                  {STATUS_LABELS[status]} only
+                </button>
+              );
+            })}
+          </div>
           <div className="space-y-4">
             {sidebarColumns.map(col => (
               <div key={`filter-sidebar-${col}`} className="space-y-1 relative">
@@ -0,0 +1,185 @@
+import React from 'react';
+import { SpeciesData, REGIONS_MAP, MARINE_SECTORS, MARINE_SECTOR_COLUMNS, DERIVED_COLUMNS } from '../types';
+import { MapView } from './MapView';
+import { ScientificName } from './ScientificName';
+import { StatusBadges } from './StatusBadges';
+import { parseName, formatName, isParenthesized } from '../services/nomenclature';
+import { chorotypeOf, chorotypeName } from '../services/chorotypes';
+import { isEndemic, isAlien } from '../services/speciesStatus';
+import { X } from 'lucide-react';
+
+interface SpeciesDetailProps {
+  species: SpeciesData;
+  exportCaption: string;
+  onClose: () => void;
+  onRegionClick: (regionCode: string) => void;
+}
+
+const TAXONOMY_FIELDS: { rank: string; authority?: string }[] = [
+  { rank: "Phylum" },
+  { rank: "Classe" },
+  { rank: "Ordine" },
+  { rank: "Famiglia" },
+  { rank: "Sottofamiglia" },
+  { rank: "Genere", authority: "Autore e anno genere" },
+  { rank: "Sottogenere", authority: "Autore e anno sottogenere" },
+  { rank: "Specie", authority: "Autore e anno specie" },
+  { rank: "Sottospecie", authority: "Autore e anno sottospecie" }
+];
+
+const NOTE_FIELDS = [
+  "Note tassonomiche / Taxonomic notes",
+  "Note distribuzione / Distribution notes"
+];
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-3">
+    <h3 className="text-xs font-bold text-zinc-900 uppercase tracking-wider">{title}</h3>
+    {children}
+  </section>
+);
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-4 py-1.5 text-sm border-b border-zinc-100 last:border-0">
+    <dt className="w-44 flex-shrink-0 text-zinc-500">{label}</dt>
+    <dd className="min-w-0 text-zinc-900 break-words">{children || <span className="text-zinc-300">—</span>}</dd>
+  </div>
+);
+
+export const SpeciesDetail: React.FC<SpeciesDetailProps> = ({ species, exportCaption, onClose, onRegionClick }) => {
+  const present = Object.keys(REGIONS_MAP).filter(code => species[code] === 'y');
+  const doubtful = Object.keys(REGIONS_MAP).filter(code => species[code] === '?');
+  const sectors = MARINE_SECTOR_COLUMNS.filter(col => species[col]);
+  const aphiaId = String(species["WORMS (AphiaID)"] || '').trim();
+  const name = parseName(species);
+  const chorotype = chorotypeOf(species);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-zinc-900/20" onClick={onClose}>
+      <aside
+        className="w-[720px] max-w-full h-full bg-white border-l border-zinc-200 shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-zinc-200 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-xs text-zinc-500 font-medium uppercase tracking-wider">
+              {species.Ordine} · {species.Famiglia}
+            </p>
+            <h2 className="text-xl font-bold text-zinc-900">
+              <ScientificName row={species} form="full" romanClassName="font-normal text-zinc-600" />
+            </h2>
+            {(isEndemic(species) || isAlien(species)) && (
+              <div className="mt-2">
+                <StatusBadges row={species} />
+              </div>
+            )}
+            {isParenthesized(name.authority) && (
+              <p className="text-xs text-zinc-500 mt-1">Authority in parentheses: originally described in another genus</p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg text-zinc-500 hover:bg-zinc-100">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8">
+          <Section title="Distribution">
+            <div className="h-[420px]">
+              <MapView
+                data={[species]}
+                onRegionClick={onRegionClick}
+                exportCaption={exportCaption}
+                showSea={sectors.length > 0}
+              />
+            </div>
+            <dl>
+              <Field label="Present">{present.map(code => REGIONS_MAP[code]).join(', ')}</Field>
+              <Field label="Doubtful">{doubtful.map(code => REGIONS_MAP[code]).join(', ')}</Field>
+              <Field label="Macro-regions">
+                {["N", "S", "Si", "Sa"].filter(code => species[code]).map(code => `${code} (${species[code]})`).join(', ')}
+              </Field>
+              {sectors.length > 0 && (
+                <Field label="Marine sectors">
+                  {sectors.map(col => `${col} ${MARINE_SECTORS[col]}${species[col] === '?' ? ' (?)' : ''}`).join(', ')}
+                </Field>
+              )}
+            </dl>
+          </Section>
+
+          <Section title="Taxonomy">
+            <dl>
+              {TAXONOMY_FIELDS.map(({ rank, authority }) => (
+                <Field key={rank} label={rank}>
+                  {species[rank] && (
+                    <>
+                      <span className={['Genere', 'Sottogenere', 'Specie', 'Sottospecie'].includes(rank) ? 'italic' : ''}>
+                        {species[rank]}
+                      </span>
+                      {authority && species[authority] && (
+                        <span className="text-zinc-500"> {species[authority]}</span>
+                      )}
+                    </>
+                  )}
+                </Field>
+              ))}
+            </dl>
+          </Section>
+
+          <Section title="Identifiers and status">
+            <dl>
+              <Field label="Fauna Europaea">
+                {species["Fauna Europaea (nome)"] || (
+                  <span className="text-zinc-400" title="Not in the source; built from the rank columns">
+                    {formatName(name, 'faunaEuropaea')}
+                  </span>
+                )}
+              </Field>
+              <Field label="WoRMS AphiaID">
+                {aphiaId && (
+                  <a
+                    href={`https://www.marinespecies.org/aphia.php?p=taxdetails&id=${encodeURIComponent(aphiaId)}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-indigo-600 hover:underline"
+                  >
+                    {aphiaId}
+                  </a>
+                )}
+              </Field>
+              <Field label="Corotipo">
+                {chorotype && (
+                  <span>{chorotype} · {chorotypeName(chorotype)}</span>
+                )}
+              </Field>
+              <Field label="Endemic">{species.End}</Field>
+              <Field label="Alien">{species.Alien}</Field>
+            </dl>
+          </Section>
+
+          <Section title="Notes">
+            <dl>
+              {NOTE_FIELDS.map(field => (
+                <Field key={field} label={field.split(' / ')[1]}>
+                  {species[field] && <span className="whitespace-pre-line">{species[field]}</span>}
+                </Field>
+              ))}
+            </dl>
+          </Section>
+
+          <Section title="Full record">
+            <dl>
+              {Object.keys(species)
+                .filter(key => !DERIVED_COLUMNS.includes(key))
+                .map(key => (
+                  <Field key={key} label={key}>{String(species[key] ?? '')}</Field>
+                ))}
+            </dl>
+            <p className="text-xs text-zinc-400 font-mono">
+              {species.Dataset} · {species.File}:{species.Line}
+            </p>
+          </Section>
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { SpeciesData } from '../types';
+import { SpeciesStatus, STATUS_LABELS, hasStatus } from '../services/speciesStatus';
+
+const STATUS_CLASSES: Record<SpeciesStatus, string> = {
+  endemic: 'bg-rose-50 text-rose-700 border-rose-200',
+  alien: 'bg-amber-50 text-amber-700 border-amber-200'
+};
+
+interface StatusBadgeProps {
+  status: SpeciesStatus;
+  // Initial only, for table cells
+  compact?: boolean;
+}
+
+export const StatusBadge: React.FC<StatusBadgeProps> = ({ status, compact = false }) => (
+  <span
+    title={STATUS_LABELS[status]}
+    className={`inline-flex items-center border rounded-full font-semibold not-italic align-middle ${STATUS_CLASSES[status]} ${
+      compact ? 'px-1.5 text-[10px] leading-4' : 'px-2 py-0.5 text-xs'
+    }`}
+  >
+    {compact ? STATUS_LABELS[status][0] : STATUS_LABELS[status]}
+  </span>
+);
+
+// Badges for the statuses a row carries, if any
+export const StatusBadges: React.FC<{ row: SpeciesData; compact?: boolean }> = ({ row, compact }) => (
+  <span className={`inline-flex align-middle ${compact ? 'gap-1 ml-1.5' : 'gap-2'}`}>
+    {(['endemic', 'alien'] as SpeciesStatus[])
+      .filter(status => hasStatus(row, status))
+      .map(status => <StatusBadge key={status} status={status} compact={compact} />)}
+  </span>
+);
@@ -0,0 +1,127 @@
+import React, { useMemo } from 'react';
+import { SpeciesData, REGIONS_MAP } from '../types';
+import { isEndemic, isAlien, regionStatusCounts, singleRegionEndemics } from '../services/speciesStatus';
+import { toCsv } from '../services/exporters';
+import { downloadBlob } from '../services/download';
+import { ScientificName } from './ScientificName';
+import { Download } from 'lucide-react';
+
+interface SummaryViewProps {
+  data: SpeciesData[];
+  onSelectSpecies: (row: SpeciesData) => void;
+}
+
+const EXPORT_COLUMNS = ["Territory", "Code", "Status", "Famiglia", "Nome Scientifico", "Autore"];
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—');
+
+const Stat: React.FC<{ label: string; value: number; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-white border border-zinc-200 rounded-xl shadow-sm p-4">
+    <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{label}</div>
+    <div className="mt-2 text-3xl font-light text-zinc-900">
+      {value.toLocaleString('en')}
+      {detail && <span className="ml-2 text-sm text-zinc-500">{detail}</span>}
+    </div>
+  </div>
+);
+
+export const SummaryView: React.FC<SummaryViewProps> = ({ data, onSelectSpecies }) => {
+  const endemicCount = useMemo(() => data.filter(isEndemic).length, [data]);
+  const alienCount = useMemo(() => data.filter(isAlien).length, [data]);
+  const regions = useMemo(() => regionStatusCounts(data), [data]);
+  const restricted = useMemo(() => singleRegionEndemics(data), [data]);
+  const restrictedCount = restricted.reduce((sum, group) => sum + group.rows.length, 0);
+
+  const exportRestricted = () => {
+    const rows = restricted.flatMap(({ code, rows }) => rows.map(row => ({
+      ...row,
+      Territory: REGIONS_MAP[code],
+      Code: code,
+      Status: row[code] === '?' ? 'doubtful' : 'present'
+    })));
+    downloadBlob(toCsv(rows, EXPORT_COLUMNS), 'single_region_endemics.csv');
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Stat label="Taxa" value={data.length} />
+        <Stat label="Endemic" value={endemicCount} detail={percent(endemicCount, data.length)} />
+        <Stat label="Alien" value={alienCount} detail={percent(alienCount, data.length)} />
+        <Stat label="Single-region endemics" value={restrictedCount} detail={percent(restrictedCount, endemicCount)} />
+      </div>
+
+      <div className="flex flex-wrap gap-8 items-start">
+        <div className="bg-white border border-zinc-200 rounded-xl shadow-sm p-4">
+          <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider mb-1">By territory</h3>
+          <p className="text-xs text-zinc-500 mb-4">Percentages are of the species present in the territory</p>
+          <table className="text-sm">
+            <thead>
+              <tr className="text-xs text-zinc-500 uppercase tracking-wider">
+                <th className="text-left font-semibold py-2 pr-6">Territory</th>
+                <th className="text-right font-semibold py-2 px-3">Present</th>
+                <th className="text-right font-semibold py-2 px-3" colSpan={2}>Endemic</th>
+                <th className="text-right font-semibold py-2 px-3" colSpan={2}>Alien</th>
+                <th className="text-right font-semibold py-2 pl-3">Only here</th>
+              </tr>
+            </thead>
+            <tbody className="tabular-nums">
+              {regions.map(region => (
+                <tr key={region.code} className="border-t border-zinc-100">
+                  <td className="py-1.5 pr-6 text-zinc-700">{REGIONS_MAP[region.code]}</td>
+                  <td className="py-1.5 px-3 text-right text-zinc-900">{region.present}</td>
+                  <td className="py-1.5 pl-3 text-right text-zinc-900">{region.endemic}</td>
+                  <td className="py-1.5 pr-3 pl-2 text-right text-zinc-400">{percent(region.endemic, region.present)}</td>
+                  <td className="py-1.5 pl-3 text-right text-zinc-900">{region.alien}</td>
+                  <td className="py-1.5 pr-3 pl-2 text-right text-zinc-400">{percent(region.alien, region.present)}</td>
+                  <td className="py-1.5 pl-3 text-right text-zinc-900">{region.singleRegionEndemics || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex-1 min-w-[420px] bg-white border border-zinc-200 rounded-xl shadow-sm p-4 space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="mr-auto">
+              <h3 className="text-sm font-bold text-zinc-900 uppercase tracking-wider">Single-region endemics</h3>
+              <p className="text-xs text-zinc-500 mt-1">
+                Endemics recorded in one territory only; a doubtful record elsewhere counts as a second territory
+              </p>
+            </div>
+            <button
+              onClick={exportRestricted}
+              disabled={restrictedCount === 0}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border border-zinc-200 rounded-lg text-zinc-600 hover:bg-zinc-50 disabled:opacity-40"
+            >
+              <Download size={14} />
+              CSV
+            </button>
+          </div>
+
+          {restricted.length === 0 ? (
+            <p className="text-sm text-zinc-400">No single-region endemics in the current selection.</p>
+          ) : (
+            restricted.map(({ code, rows }) => (
+              <div key={code}>
+                <h4 className="text-xs font-semibold text-zinc-600 uppercase tracking-wider mb-1">
+                  {REGIONS_MAP[code]} ({rows.length})
+                </h4>
+                <ul className="text-sm text-zinc-700 space-y-1">
+                  {rows.map(row => (
+                    <li key={`${row.Dataset}-${row.Line}`}>
+                      <button onClick={() => onSelectSpecies(row)} className="text-left hover:text-indigo-600">
+                        <ScientificName row={row} form="full" romanClassName="text-zinc-500" />
+                      </button>
+                      {row[code] === '?' && <span className="ml-2 text-xs text-zinc-400">doubtful</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
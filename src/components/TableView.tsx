@@ -1,149 +1,402 @@
-import React, { useMemo, useState } from 'react';
-import { SpeciesData, RETAINED_COLUMNS } from '../types';
-import { ChevronUp, ChevronDown, Search, Download } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { SpeciesData, SortKey, DatasetInfo, ValidationIssue, MARINE_SECTORS } from '../types';
+import { Filters } from '../services/filters';
+import {
+  loadColumnWidths,
+  saveColumnWidths,
+  defaultColumnWidth,
+  moveColumn,
+  MIN_COLUMN_WIDTH
+} from '../services/columns';
+import { SYSTEMATIC_SORT, SYSTEMATIC_ORDER } from '../services/sorting';
+import { rowKey, isStatusColumn, isEditable, nextStatus, draftIssues } from '../services/curation';
+import { ExportMenu } from './ExportMenu';
+import { ScientificName } from './ScientificName';
+import { StatusBadges } from './StatusBadges';
+import { ChevronUp, ChevronDown, Search, ListOrdered, Pencil } from 'lucide-react';
 
 interface TableViewProps {
   data: SpeciesData[];
+  // Columns chosen in the sidebar; the table and the exports show these, in this order
+  columns: string[];
+  onColumnsChange: (columns: string[]) => void;
+  // Datasets the rows come from, described in the export metadata
+  datasets: DatasetInfo[];
+  exportTitle: string;
+  exportCaption: string;
+  filters: Filters;
+  onFilterChange: (col: string, value: string) => void;
+  sortConfig: SortKey[];
+  onSortChange: (sortConfig: SortKey[]) => void;
+  onRowClick: (row: SpeciesData) => void;
+  // A new filter or sort is being computed; `data` is still the previous result
+  updating: boolean;
+  // Curator edit mode; the toggle is shown only with onEditingChange
+  editing?: boolean;
+  onEditingChange?: (editing: boolean) => void;
+  onEditCell?: (row: SpeciesData, column: string, value: string) => void;
+  // Rows as loaded, by rowKey, so edited cells can show their previous value
+  originalRows?: Map<string, SpeciesData>;
+  // Validation issues by rowKey, marked on their cells while editing
+  rowIssues?: Map<string, ValidationIssue[]>;
 }
 
-export const TableView: React.FC<TableViewProps> = ({ data }) => {
-  const [filters, setFilters] = useState<Record<string, string>>({});
-  const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' }[]>([]);
-
-  const filteredData = useMemo(() => {
-    return data.filter(row => {
-      return Object.entries(filters).every(([key, value]) => {
-        const val = value as string;
-        if (!val) return true;
-        const cellValue = String(row[key] || '').toLowerCase();
-        return cellValue.includes(val.toLowerCase());
-      });
-    });
-  }, [data, filters]);
-
-  const sortedData = useMemo(() => {
-    if (sortConfig.length === 0) return filteredData;
-
-    return [...filteredData].sort((a, b) => {
-      for (const { key, direction } of sortConfig) {
-        const valA = String(a[key] || '');
-        const valB = String(b[key] || '');
-        if (valA < valB) return direction === 'asc' ? -1 : 1;
-        if (valA > valB) return direction === 'asc' ? 1 : -1;
-      }
-      return 0;
-    });
-  }, [filteredData, sortConfig]);
+// Rows are rendered only around the visible window; all rows share one height
+const ROW_HEIGHT = 45;
+const OVERSCAN = 10;
+const FILTER_DEBOUNCE_MS = 250;
 
-  const toggleSort = (key: string, shiftKey: boolean) => {
-    setSortConfig(prev => {
-      const existing = prev.find(s => s.key === key);
-      let next;
-      if (existing) {
-        if (existing.direction === 'asc') {
-          next = { key, direction: 'desc' as const };
-        } else {
-          next = null;
-        }
-      } else {
-        next = { key, direction: 'asc' as const };
-      }
+// Filter box that reports its value once typing pauses
+const FilterInput: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  className: string;
+  placeholder: string;
+}> = ({ value, onChange, className, placeholder }) => {
+  const [draft, setDraft] = useState(value);
+  const sent = useRef(value);
+
+  // Follow changes made elsewhere (chips, sidebar, history) without clobbering typing
+  useEffect(() => {
+    if (value !== sent.current) {
+      sent.current = value;
+      setDraft(value);
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (draft === sent.current) return;
+    const timer = setTimeout(() => {
+      sent.current = draft;
+      onChange(draft);
+    }, FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  return (
+    <input
+      type="text"
+      className={className}
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+    />
+  );
+};
+
+// Text cell being edited; the value is checked as it is typed, and committed
+// trimmed on Enter or when the field loses focus
+const CellEditor: React.FC<{
+  row: SpeciesData;
+  column: string;
+  dataset?: DatasetInfo;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+}> = ({ row, column, dataset, onCommit, onCancel }) => {
+  const [draft, setDraft] = useState(String(row[column] ?? ''));
+  const problems = dataset ? draftIssues(row, column, draft.trim(), dataset) : [];
+  const hasError = problems.some(issue => issue.severity === 'error');
+
+  return (
+    <>
+      <input
+        autoFocus
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onClick={(e) => e.stopPropagation()}
+        onBlur={() => onCommit(draft.trim())}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onCommit(draft.trim());
+          if (e.key === 'Escape') onCancel();
+        }}
+        className={`w-full px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 ${
+          hasError
+            ? 'border-red-400 focus:ring-red-500/20'
+            : problems.length > 0
+              ? 'border-amber-400 focus:ring-amber-500/20'
+              : 'border-indigo-400 focus:ring-indigo-500/20'
+        }`}
+      />
+      {problems.length > 0 && (
+        <div className={`absolute left-3 top-full -mt-1 z-20 px-2 py-1 rounded-md text-xs whitespace-normal shadow-sm ${
+          hasError ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'
+        }`}>
+          {problems.map(issue => issue.message).join('; ')}
+        </div>
+      )}
+    </>
+  );
+};
 
-      if (shiftKey) {
-        if (!next) return prev.filter(s => s.key !== key);
-        const filtered = prev.filter(s => s.key !== key);
-        return [...filtered, next];
+export const TableView: React.FC<TableViewProps> = ({
+  data,
+  columns,
+  onColumnsChange,
+  datasets,
+  exportTitle,
+  exportCaption,
+  filters,
+  onFilterChange,
+  sortConfig,
+  onSortChange,
+  onRowClick,
+  updating,
+  editing = false,
+  onEditingChange,
+  onEditCell,
+  originalRows,
+  rowIssues
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(data.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = data.slice(firstRow, lastRow);
+
+  const [widths, setWidths] = useState<Record<string, number>>(loadColumnWidths);
+  const [dragged, setDragged] = useState<string | null>(null);
+  const widthOf = (col: string) => widths[col] ?? defaultColumnWidth(col);
+  const tableWidth = columns.reduce((sum, col) => sum + widthOf(col), 0);
+
+  // Drag the right edge of a header; the width is remembered across sessions
+  const startResize = (col: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(col);
+    let latest = widths;
+    const onMove = (moveEvent: MouseEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + moveEvent.clientX - startX));
+      latest = { ...latest, [col]: width };
+      setWidths(latest);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      saveColumnWidths(latest);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const isSystematic = sortConfig[0]?.key === SYSTEMATIC_SORT;
+
+  const [editingCell, setEditingCell] = useState<{ key: string; column: string } | null>(null);
+  useEffect(() => {
+    if (!editing) setEditingCell(null);
+  }, [editing]);
+
+  // Distribution cells cycle their status on click; text cells open an editor
+  const handleCellClick = (row: SpeciesData, col: string) => {
+    if (!editing || !onEditCell || !isEditable(col)) return;
+    if (isStatusColumn(col)) onEditCell(row, col, nextStatus(String(row[col] ?? '')));
+    else setEditingCell({ key: rowKey(row), column: col });
+  };
+
+  const commitEdit = (row: SpeciesData, col: string, value: string) => {
+    setEditingCell(null);
+    if (value !== String(row[col] ?? '')) onEditCell?.(row, col, value);
+  };
+
+  // Edited and invalid cells, with the previous value and the issues as a tooltip
+  const cellState = (row: SpeciesData, col: string) => {
+    const key = rowKey(row);
+    const original = originalRows?.get(key);
+    const changed = original !== undefined && String(original[col] ?? '') !== String(row[col] ?? '');
+    const issues = (rowIssues?.get(key) ?? []).filter(issue => issue.column === col);
+    const notes = [
+      ...issues.map(issue => issue.message),
+      ...(changed ? [`Was: ${String(original![col] ?? '') || '(blank)'}`] : [])
+    ];
+    const className = [
+      changed ? 'bg-indigo-50' : '',
+      issues.some(issue => issue.severity === 'error')
+        ? 'ring-2 ring-inset ring-red-300'
+        : issues.length > 0 ? 'ring-2 ring-inset ring-amber-300' : ''
+    ].join(' ');
+    return { className, title: notes.join('\n') };
+  };
+
+  const toggleSort = (key: string, shiftKey: boolean) => {
+    const existing = sortConfig.find(s => s.key === key);
+    let next: SortKey | null;
+    if (existing) {
+      if (existing.direction === 'asc') {
+        next = { key, direction: 'desc' };
       } else {
-        return next ? [next] : [];
+        next = null;
       }
-    });
-  };
+    } else {
+      next = { key, direction: 'asc' };
+    }
 
-  const exportToCSV = () => {
-    const headers = RETAINED_COLUMNS.join(',');
-    const rows = sortedData.map(row => 
-      RETAINED_COLUMNS.map(col => {
-        const val = row[col] || '';
-        const escaped = String(val).replace(/"/g, '""');
-        return `"${escaped}"`;
-      }).join(',')
-    );
-    const csvContent = [headers, ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'species_filtered_data.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    if (shiftKey) {
+      const filtered = sortConfig.filter(s => s.key !== key);
+      onSortChange(next ? [...filtered, next] : filtered);
+    } else {
+      onSortChange(next ? [next] : []);
+    }
   };
 
   return (
-    <div className="space-y-4">
+    <div className="h-full flex flex-col gap-4">
       <div className="flex justify-between items-center">
-        <div className="text-sm text-zinc-500">
-          Showing <span className="font-semibold text-zinc-900">{sortedData.length}</span> species
+        <div className="flex items-center gap-3 text-sm text-zinc-500">
+          <span>
+            Showing <span className="font-semibold text-zinc-900">{data.length}</span> species
+          </span>
+          <button
+            onClick={() => onSortChange(isSystematic ? [] : SYSTEMATIC_ORDER)}
+            title="Family, curator order if given, genus, subgenus, species, nominotypical subspecies first"
+            className={`flex items-center gap-2 px-3 py-1.5 border text-sm font-medium rounded-lg transition-colors ${
+              isSystematic
+                ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                : 'bg-white border-zinc-200 text-zinc-600 hover:bg-zinc-50'
+            }`}
+          >
+            <ListOrdered size={14} />
+            Systematic order
+          </button>
+          {onEditingChange && (
+            <button
+              onClick={() => onEditingChange(!editing)}
+              title="Change statuses, taxonomy and notes; edits are kept in this browser until exported"
+              className={`flex items-center gap-2 px-3 py-1.5 border text-sm font-medium rounded-lg transition-colors ${
+                editing
+                  ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                  : 'bg-white border-zinc-200 text-zinc-600 hover:bg-zinc-50'
+              }`}
+            >
+              <Pencil size={14} />
+              Edit
+            </button>
+          )}
+          {updating && (
+            <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+          )}
         </div>
-        <button
-          onClick={exportToCSV}
-          className="flex items-center gap-2 px-4 py-2 bg-zinc-900 text-white text-sm font-medium rounded-lg hover:bg-zinc-800 transition-colors shadow-sm"
-        >
-          <Download size={16} />
-          Export CSV
-        </button>
+        <ExportMenu
+          rows={data}
+          columns={columns}
+          datasets={datasets}
+          title={exportTitle}
+          caption={exportCaption}
+        />
       </div>
-      <div className="overflow-x-auto border border-zinc-200 rounded-xl bg-white shadow-sm">
-      <table className="w-full text-left border-collapse min-w-[1200px]">
-        <thead>
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 min-h-0 overflow-auto border border-zinc-200 rounded-xl bg-white shadow-sm"
+      >
+      <table className="text-left border-collapse table-fixed" style={{ width: Math.max(tableWidth, 1) }}>
+        <colgroup>
+          {columns.map(col => <col key={col} style={{ width: widthOf(col) }} />)}
+        </colgroup>
+        <thead className="sticky top-0 z-10 bg-white shadow-[0_1px_0_#e4e4e7]">
           <tr className="bg-zinc-50 border-b border-zinc-200">
-            {RETAINED_COLUMNS.map(col => (
+            {columns.map(col => (
               <th 
                 key={col} 
-                className="p-3 text-xs font-semibold text-zinc-600 uppercase tracking-wider cursor-pointer hover:bg-zinc-100 transition-colors"
+                draggable
+                onDragStart={() => setDragged(col)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragged) onColumnsChange(moveColumn(columns, dragged, col));
+                  setDragged(null);
+                }}
+                onDragEnd={() => setDragged(null)}
+                className={`relative p-3 text-xs font-semibold text-zinc-600 uppercase tracking-wider cursor-pointer hover:bg-zinc-100 transition-colors ${dragged === col ? 'opacity-40' : ''}`}
                 onClick={(e) => toggleSort(col, e.shiftKey)}
               >
-                <div className="flex items-center gap-2">
-                  {col}
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="truncate" title={col in MARINE_SECTORS ? `Marine sector ${col}: ${MARINE_SECTORS[col]}` : col}>{col}</span>
                   <div className="flex flex-col">
                     {sortConfig.find(s => s.key === col)?.direction === 'asc' && <ChevronUp size={12} />}
                     {sortConfig.find(s => s.key === col)?.direction === 'desc' && <ChevronDown size={12} />}
                   </div>
                 </div>
+                <div
+                  onMouseDown={(e) => startResize(col, e)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-indigo-300"
+                />
               </th>
             ))}
           </tr>
           <tr className="bg-white border-b border-zinc-200">
-            {RETAINED_COLUMNS.map(col => (
+            {columns.map(col => (
               <th key={`filter-${col}`} className="p-2">
                 <div className="relative">
-                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 text-zinc-400" size={14} />
-                  <input
-                    type="text"
-                    className="w-full pl-8 pr-2 py-1 text-sm border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
-                    placeholder="Filter..."
+                  {/* Narrow columns (region codes) have no room for the icon */}
+                  {widthOf(col) >= 100 && (
+                    <Search className="absolute left-2 top-1/2 -translate-y-1/2 text-zinc-400" size={14} />
+                  )}
+                  <FilterInput
+                    className={`w-full ${widthOf(col) >= 100 ? 'pl-8' : 'pl-2'} pr-2 py-1 text-sm border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500`}
+                    placeholder={widthOf(col) >= 100 ? 'Filter...' : ''}
                     value={filters[col] || ''}
-                    onChange={(e) => setFilters(prev => ({ ...prev, [col]: e.target.value }))}
+                    onChange={(value) => onFilterChange(col, value)}
                   />
                 </div>
               </th>
             ))}
           </tr>
         </thead>
-        <tbody className="divide-y divide-zinc-200">
-          {sortedData.map((row, i) => (
-            <tr key={i} className="hover:bg-zinc-50 transition-colors">
-              {RETAINED_COLUMNS.map(col => (
-                <td key={col} className="p-3 text-sm text-zinc-700 whitespace-nowrap">
-                  {row[col]}
-                </td>
-              ))}
+        <tbody>
+          {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+          {visibleRows.map(row => (
+            <tr
+              key={`${row.Dataset}:${row.Line}`}
+              style={{ height: ROW_HEIGHT }}
+              className="border-b border-zinc-200 hover:bg-zinc-50 transition-colors cursor-pointer"
+              onClick={() => !editing && onRowClick(row)}
+            >
+              {columns.map(col => {
+                const isEditing = editingCell?.key === rowKey(row) && editingCell.column === col;
+                const state = editing ? cellState(row, col) : null;
+                return (
+                  <td
+                    key={col}
+                    className={`px-3 text-sm text-zinc-700 whitespace-nowrap text-ellipsis ${
+                      isEditing ? 'relative overflow-visible' : 'overflow-hidden'
+                    } ${state?.className ?? ''}`}
+                    title={state?.title || String(row[col] ?? '')}
+                    onClick={editing ? () => (col === "Nome Scientifico" ? onRowClick(row) : handleCellClick(row, col)) : undefined}
+                  >
+                    {isEditing ? (
+                      <CellEditor
+                        row={row}
+                        column={col}
+                        dataset={datasets.find(d => d.id === row.Dataset)}
+                        onCommit={value => commitEdit(row, col, value)}
+                        onCancel={() => setEditingCell(null)}
+                      />
+                    ) : col === "Nome Scientifico" ? (
+                      <>
+                        <ScientificName row={row} form="short" />
+                        <StatusBadges row={row} compact />
+                      </>
+                    ) : row[col]}
+                  </td>
+                );
+              })}
             </tr>
           ))}
+          {lastRow < data.length && <tr style={{ height: (data.length - lastRow) * ROW_HEIGHT }} />}
         </tbody>
       </table>
-      {sortedData.length === 0 && (
+      {data.length === 0 && (
         <div className="p-8 text-center text-zinc-500 italic">
           No data found matching the filters.
         </div>
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { SpeciesData } from '../types';
+import { TaxonNode, CladeStep, buildTaxonTree, cladeKey } from '../services/taxonomy';
+import { ChevronRight, Table as TableIcon, Map as MapIcon } from 'lucide-react';
+
+interface TreeViewProps {
+  data: SpeciesData[];
+  clade: CladeStep[];
+  onCladeChange: (clade: CladeStep[]) => void;
+  onShowClade: (view: 'table' | 'map') => void;
+}
+
+// Ranks printed in italics, following nomenclatural convention
+const ITALIC_RANKS = ["Genere", "Sottogenere", "Specie", "Sottospecie"];
+// Expanded on first render
+const DEFAULT_OPEN_RANKS = ["Phylum", "Classe", "Ordine"];
+
+const collectKeys = (nodes: TaxonNode[], filter: (node: TaxonNode) => boolean): string[] =>
+  nodes.flatMap(node => [
+    ...(filter(node) ? [cladeKey(node.path)] : []),
+    ...collectKeys(node.children, filter)
+  ]);
+
+const displayName = (node: TaxonNode) => {
+  if (node.rank === "Specie" || node.rank === "Sottospecie") {
+    // Species and subspecies are shown with their full binomen/trinomen
+    const genus = node.path.find(step => step.rank === "Genere")?.name ?? '';
+    const species = node.path.find(step => step.rank === "Specie")?.name ?? '';
+    return node.rank === "Specie" ? `${genus} ${species}` : `${genus} ${species} ${node.name}`;
+  }
+  if (node.rank === "Sottogenere") return `(${node.name})`;
+  return node.name;
+};
+
+export const TreeView: React.FC<TreeViewProps> = ({ data, clade, onCladeChange, onShowClade }) => {
+  const tree = useMemo(() => buildTaxonTree(data), [data]);
+  const [expanded, setExpanded] = useState<Set<string>>(() => {
+    // Open the path to the selected clade as well as the upper ranks
+    const open = new Set(collectKeys(tree, node => DEFAULT_OPEN_RANKS.includes(node.rank)));
+    clade.forEach((_, i) => open.add(cladeKey(clade.slice(0, i + 1))));
+    return open;
+  });
+
+  const selectedKey = cladeKey(clade);
+
+  const toggle = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const renderNode = (node: TaxonNode, depth: number): React.ReactNode => {
+    const key = cladeKey(node.path);
+    const isOpen = expanded.has(key);
+    const isSelected = key === selectedKey;
+
+    return (
+      <li key={key}>
+        <div
+          className={`flex items-center gap-2 pr-4 py-1.5 rounded-lg transition-colors ${
+            isSelected ? 'bg-indigo-50' : 'hover:bg-zinc-50'
+          }`}
+          style={{ paddingLeft: depth * 20 + 8 }}
+        >
+          {node.children.length > 0 ? (
+            <button onClick={() => toggle(key)} className="p-0.5 text-zinc-400 hover:text-zinc-700">
+              <ChevronRight size={14} className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+            </button>
+          ) : (
+            <span className="w-[18px]" />
+          )}
+          <button
+            onClick={() => onCladeChange(isSelected ? [] : node.path)}
+            className="flex-1 min-w-0 flex items-baseline gap-2 text-left"
+          >
+            <span className={`text-sm truncate ${isSelected ? 'text-indigo-700 font-semibold' : 'text-zinc-900'} ${ITALIC_RANKS.includes(node.rank) ? 'italic' : ''}`}>
+              {displayName(node)}
+            </span>
+            <span className="text-[10px] text-zinc-400 uppercase tracking-wider">{node.rank}</span>
+          </button>
+          <span className="text-xs text-zinc-500 whitespace-nowrap">
+            {node.speciesCount} spp.
+            {node.subspeciesCount > 0 && <> · {node.subspeciesCount} sspp.</>}
+          </span>
+        </div>
+        {isOpen && node.children.length > 0 && (
+          <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm text-zinc-500 min-w-0 truncate">
+          {clade.length > 0 ? (
+            <>
+              Selected:{' '}
+              <span className="font-semibold text-zinc-900">
+                {clade.map(step => step.name).join(' › ')}
+              </span>
+            </>
+          ) : (
+            'Select a taxon to scope the table and map to that clade'
+          )}
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={() => setExpanded(new Set(collectKeys(tree, () => true)))}
+            className="px-3 py-1.5 text-xs font-semibold text-zinc-600 hover:text-zinc-900"
+          >
+            Expand all
+          </button>
+          <button
+            onClick={() => setExpanded(new Set())}
+            className="px-3 py-1.5 text-xs font-semibold text-zinc-600 hover:text-zinc-900"
+          >
+            Collapse all
+          </button>
+          <button
+            onClick={() => onShowClade('table')}
+            disabled={clade.length === 0}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-zinc-200 text-sm font-medium rounded-lg hover:bg-zinc-50 disabled:opacity-40 transition-colors"
+          >
+            <TableIcon size={14} />
+            Show in table
+          </button>
+          <button
+            onClick={() => onShowClade('map')}
+            disabled={clade.length === 0}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white border border-zinc-200 text-sm font-medium rounded-lg hover:bg-zinc-50 disabled:opacity-40 transition-colors"
+          >
+            <MapIcon size={14} />
+            Show on map
+          </button>
+        </div>
+      </div>
+
+      <div className="border border-zinc-200 rounded-xl bg-white shadow-sm p-2">
+        {tree.length > 0 ? (
+          <ul>{tree.map(node => renderNode(node, 0))}</ul>
+        ) : (
+          <div className="p-8 text-center text-zinc-500 italic">
+            No data found matching the filters.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useMemo, useState } from 'react';
+import { SpeciesData, DatasetInfo } from '../types';
+import { parseChecklist } from '../services/dataService';
+import { territoryName } from '../services/curation';
+import { MapResolution } from '../services/mapLayers';
+import { VersionDiff, StatusChangeKind, diffVersions, hasChanges, changeColoring, toReleaseNotes } from '../services/versionDiff';
+import { downloadBlob } from '../services/download';
+import { MapView } from './MapView';
+import { FileUp, FileText, X } from 'lucide-react';
+
+interface VersionsViewProps {
+  datasets: DatasetInfo[];
+  // Loaded rows of the selected datasets, curator edits included
+  data: SpeciesData[];
+  exportCaption: string;
+}
+
+// One side of the comparison: a CSV chosen from disk, or the loaded release when null
+interface Version {
+  label: string;
+  rows: SpeciesData[];
+}
+
+const KIND_LABELS: Record<StatusChangeKind, string> = {
+  present: 'Newly present',
+  doubtful: 'Newly doubtful',
+  removed: 'Removed'
+};
+
+const KIND_COLORS: Record<StatusChangeKind, string> = {
+  present: 'bg-emerald-50 text-emerald-700',
+  doubtful: 'bg-amber-50 text-amber-700',
+  removed: 'bg-red-50 text-red-700'
+};
+
+async function readVersion(file: File, dataset: DatasetInfo): Promise<Version> {
+  const { data } = await parseChecklist(await file.text(), { ...dataset, file: file.name });
+  if (data.length === 0) throw new Error(`No taxa found in ${file.name}`);
+  return { label: file.name, rows: data };
+}
+
+const VersionPicker: React.FC<{
+  title: string;
+  version: Version | null;
+  // Shown when no file is chosen; without it a file is required
+  fallback?: string;
+  onFile: (file: File) => void;
+  onClear: () => void;
+}> = ({ title, version, fallback, onFile, onClear }) => (
+  <div className="flex-1 min-w-[260px] bg-white border border-zinc-200 rounded-xl shadow-sm p-4 space-y-2">
+    <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">{title}</h3>
+    <div className="flex items-center gap-2">
+      <span className={`flex-1 truncate text-sm ${version || fallback ? 'text-zinc-900 font-medium' : 'text-zinc-400'}`}>
+        {version ? `${version.label} (${version.rows.length} taxa)` : fallback ?? 'No file chosen'}
+      </span>
+      {version && (
+        <button onClick={onClear} title="Clear" className="p-1 text-zinc-400 hover:text-zinc-600">
+          <X size={14} />
+        </button>
+      )}
+      <label className="flex items-center gap-2 px-3 py-1.5 bg-white border border-zinc-200 text-sm font-medium text-zinc-600 rounded-lg hover:bg-zinc-50 cursor-pointer transition-colors">
+        <FileUp size={14} />
+        Choose CSV
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  </div>
+);
+
+const TaxonList: React.FC<{ title: string; items: { key: string; content: React.ReactNode }[] }> = ({ title, items }) => (
+  <div className="bg-white border border-zinc-200 rounded-xl shadow-sm p-4 min-w-0">
+    <h3 className="text-xs font-semibold text-zinc-600 uppercase tracking-wider mb-2">{title} ({items.length})</h3>
+    {items.length === 0 ? (
+      <p className="text-sm text-zinc-400">None</p>
+    ) : (
+      <ul className="max-h-72 overflow-y-auto text-sm text-zinc-700 space-y-1.5">
+        {items.map(item => <li key={item.key}>{item.content}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+const Name: React.FC<{ row: SpeciesData }> = ({ row }) => (
+  <>
+    <span className="italic">{row["Nome Scientifico"]}</span>
+    {row.Autore && <span className="text-zinc-500"> {row.Autore}</span>}
+  </>
+);
+
+export const VersionsView: React.FC<VersionsViewProps> = ({ datasets, data, exportCaption }) => {
+  const [datasetId, setDatasetId] = useState(datasets[0]?.id ?? '');
+  const [older, setOlder] = useState<Version | null>(null);
+  const [newer, setNewer] = useState<Version | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [focusCode, setFocusCode] = useState<string | null>(null);
+  const [resolution, setResolution] = useState<MapResolution>('region');
+  const [showSea, setShowSea] = useState(false);
+
+  const dataset = datasets.find(d => d.id === datasetId) ?? datasets[0];
+
+  const loadedRows = useMemo(() => data.filter(row => row.Dataset === dataset?.id), [data, dataset]);
+  const newerRows = newer?.rows ?? loadedRows;
+  const newerLabel = newer?.label ?? `version ${dataset?.version}`;
+
+  const diff = useMemo<VersionDiff | null>(
+    () => (older ? diffVersions(older.rows, newerRows) : null),
+    [older, newerRows]
+  );
+  const coloring = useMemo(() => (diff ? changeColoring(diff.territories) : undefined), [diff]);
+
+  const pick = (set: (version: Version) => void) => (file: File) => {
+    if (!dataset) return;
+    setError(null);
+    readVersion(file, dataset)
+      .then(set)
+      .catch(err => setError(err instanceof Error ? err.message : `Could not read ${file.name}`));
+  };
+
+  const handleExport = () => {
+    if (!diff || !older || !dataset) return;
+    const notes = toReleaseNotes(diff, {
+      title: dataset.label,
+      before: older.label,
+      after: newerLabel,
+      date: new Date().toISOString().slice(0, 10)
+    });
+    downloadBlob(new Blob([notes], { type: 'text/markdown;charset=utf-8;' }), `${dataset.id}_release_notes.md`);
+  };
+
+  // Taxa whose record in the clicked territory changed, including added and removed taxa.
+  // Both releases are parsed under the same dataset id, so the key names the
+  // file a row's line number belongs to.
+  const focused = useMemo(() => {
+    if (!diff || !focusCode) return [];
+    const status = (row: SpeciesData) => String(row[focusCode] ?? '');
+    return [
+      ...diff.distribution.flatMap(({ after, changes }) =>
+        changes.filter(change => change.code === focusCode).map(change => ({ key: `after-${after.Line}`, row: after, kind: change.kind }))
+      ),
+      ...diff.added.filter(row => status(row)).map(row => ({ key: `after-${row.Line}`, row, kind: (status(row) === '?' ? 'doubtful' : 'present') as StatusChangeKind })),
+      ...diff.removed.filter(row => status(row)).map(row => ({ key: `before-${row.Line}`, row, kind: 'removed' as StatusChangeKind }))
+    ];
+  }, [diff, focusCode]);
+
+  if (!dataset) {
+    return <p className="text-sm text-zinc-500">Select a dataset to compare its releases.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-stretch gap-4">
+        {datasets.length > 1 && (
+          <div className="bg-white border border-zinc-200 rounded-xl shadow-sm p-4 space-y-2">
+            <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider">Dataset</h3>
+            <select
+              value={dataset.id}
+              onChange={(e) => {
+                setDatasetId(e.target.value);
+                setOlder(null);
+                setNewer(null);
+              }}
+              className="px-3 py-1.5 text-sm border border-zinc-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500"
+            >
+              {datasets.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+            </select>
+          </div>
+        )}
+        <VersionPicker title="Older release" version={older} onFile={pick(setOlder)} onClear={() => setOlder(null)} />
+        <VersionPicker
+          title="Newer release"
+          version={newer}
+          fallback={`Loaded ${dataset.label}, version ${dataset.version} (${loadedRows.length} taxa)`}
+          onFile={pick(setNewer)}
+          onClear={() => setNewer(null)}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!diff ? (
+        <p className="text-sm text-zinc-500">
+          Choose the CSV of an earlier release to see what changed: added and removed taxa, name and authority changes, and distribution records gained or lost in each territory.
+        </p>
+      ) : !hasChanges(diff) ? (
+        <p className="text-sm text-zinc-500">The two releases list the same taxa with the same names, authorities and distributions.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-6 text-sm text-zinc-600">
+            {[
+              ['added', diff.added.length],
+              ['removed', diff.removed.length],
+              ['renamed', diff.renamed.length],
+              ['authority changes', diff.authority.length],
+              ['with distribution changes', diff.distribution.length]
+            ].map(([label, count]) => (
+              <span key={label}>
+                <span className="font-semibold text-zinc-900">{count}</span> {label}
+              </span>
+            ))}
+            <button
+              onClick={handleExport}
+              className="ml-auto flex items-center gap-2 px-4 py-2 bg-zinc-900 text-white text-sm font-medium rounded-lg hover:bg-zinc-800 transition-colors shadow-sm"
+            >
+              <FileText size={16} />
+              Release notes
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-6 items-start">
+            <div className="flex-[2] min-w-[480px]">
+              <MapView
+                data={newerRows}
+                onRegionClick={setFocusCode}
+                exportTitle={`${dataset.label}: ${older!.label} → ${newerLabel}`}
+                exportCaption={exportCaption}
+                customColoring={coloring}
+                resolution={resolution}
+                onResolutionChange={setResolution}
+                showSea={showSea}
+                onShowSeaChange={setShowSea}
+              />
+            </div>
+            <div className="flex-1 min-w-[280px] bg-white border border-zinc-200 rounded-xl shadow-sm p-4">
+              <h3 className="text-xs font-semibold text-zinc-600 uppercase tracking-wider mb-2">
+                {focusCode ? `${territoryName(focusCode) ?? focusCode} (${focused.length})` : 'Territory changes'}
+              </h3>
+              {!focusCode ? (
+                <p className="text-sm text-zinc-400">Click a territory on the map to list the taxa whose record there changed.</p>
+              ) : focused.length === 0 ? (
+                <p className="text-sm text-zinc-400">No changes here.</p>
+              ) : (
+                <ul className="max-h-[480px] overflow-y-auto text-sm text-zinc-700 space-y-1.5">
+                  {focused.map(({ key, row, kind }) => (
+                    <li key={key} className="flex items-center gap-2">
+                      <span className={`px-1.5 py-0.5 rounded-md text-[10px] font-semibold uppercase ${KIND_COLORS[kind]}`}>
+                        {KIND_LABELS[kind]}
+                      </span>
+                      <span className="italic truncate">{row["Nome Scientifico"]}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <TaxonList
+              title="Added taxa"
+              items={diff.added.map(row => ({ key: `added-${row.Line}`, content: <Name row={row} /> }))}
+            />
+            <TaxonList
+              title="Removed taxa"
+              items={diff.removed.map(row => ({ key: `removed-${row.Line}`, content: <Name row={row} /> }))}
+            />
+            <TaxonList
+              title="Name changes"
+              items={diff.renamed.map(({ before, after }) => ({
+                key: `renamed-${after.Line}`,
+                content: <><Name row={before} /> → <Name row={after} /></>
+              }))}
+            />
+            <TaxonList
+              title="Authority changes"
+              items={diff.authority.map(({ after, changes }) => ({
+                key: `authority-${after.Line}`,
+                content: (
+                  <>
+                    <span className="italic">{after["Nome Scientifico"]}</span>
+                    {changes.map(change => (
+                      <div key={change.column} className="text-xs text-zinc-500">
+                        {change.column}: {change.before || '(blank)'} → {change.after || '(blank)'}
+                      </div>
+                    ))}
+                  </>
+                )
+              }))}
+            />
+            <div className="lg:col-span-2">
+              <TaxonList
+                title="Distribution changes"
+                items={diff.distribution.map(({ after, changes }) => ({
+                  key: `distribution-${after.Line}`,
+                  content: (
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <span className="italic mr-1">{after["Nome Scientifico"]}</span>
+                      {changes.map(change => (
+                        <span
+                          key={change.code}
+                          title={`${territoryName(change.code)}: ${change.before || 'absent'} → ${change.after || 'absent'}`}
+                          className={`px-1.5 py-0.5 rounded-md text-[10px] font-semibold ${KIND_COLORS[change.kind]}`}
+                        >
+                          {change.kind === 'removed' ? '−' : change.kind === 'doubtful' ? '?' : '+'}{change.code}
+                        </span>
+                      ))}
+                    </div>
+                  )
+                }))}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+// Service worker for offline use. Not bundled with the app: the serviceWorker
+// plugin in vite.config.ts fills in the file list and cache version of each
+// build and writes it out as sw.js.
+//
+// Everything the viewer needs (app shell, dataset manifest, checklist CSVs,
+// map geometry) is downloaded on install and served from the cache, so a
+// release is self-consistent offline. A new release installs alongside and
+// takes over when the page asks for it (see src/services/offline.ts).
+
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE_FILES = __PRECACHE_FILES__;
+
+const CACHE_PREFIX = 'fauna-italia-';
+const PRECACHE = `${CACHE_PREFIX}${CACHE_VERSION}`;
+// Anything else fetched from the site, such as API server responses
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime`;
+
+self.addEventListener('install', event => {
+  // Bypass the HTTP cache, which may still hold the files of the previous release
+  const requests = ['./', ...PRECACHE_FILES].map(file => new Request(file, { cache: 'reload' }));
+  event.waitUntil(caches.open(PRECACHE).then(cache => cache.addAll(requests)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Network first, keeping a copy for when the network is gone
+async function fromNetwork(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const copy = response.clone();
+      caches.open(RUNTIME_CACHE).then(cache => cache.put(request, copy)).catch(() => {});
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    // The app shell for any page of the site; the view is in the hash
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('./');
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  // Update checks ask for the published copy, see checkForUpdates
+  if (request.cache === 'no-store') return;
+  event.respondWith(
+    caches.match(request, { cacheName: PRECACHE, ignoreSearch: request.mode === 'navigate' })
+      .then(cached => cached ?? fromNetwork(request))
+  );
+});
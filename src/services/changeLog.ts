@@ -0,0 +1,43 @@
+import type { CellEdit } from './curation';
+
+// The curator's edits, kept in IndexedDB so they survive reloads until exported.
+// Edits are stored under their `seq`, which gives the undo order; writes are
+// queued by IndexedDB in the order they are made, so callers need not wait.
+
+const DB_NAME = 'fauna_italia_viewer';
+const STORE = 'edits';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'seq' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Oldest first
+export const loadEdits = () => run<CellEdit[]>('readonly', store => store.getAll());
+
+export const saveEdit = (edit: CellEdit) => run('readwrite', store => store.put(edit));
+
+export const deleteEdit = (seq: number) => run('readwrite', store => store.delete(seq));
+
+export const clearEdits = () => run('readwrite', store => store.clear());
@@ -0,0 +1,126 @@
+import * as d3 from 'd3';
+import { SpeciesData } from '../types';
+
+// Chorotypes of the Corotipo column, coded after Vigna Taglianti et al.
+// (Biogeographia 16, 1992; 20, 1999): a group digit, a point and a number
+// ("1.10"), plus "e" for endemics and "cosmop" for cosmopolitan species.
+
+export interface Chorotype {
+  code: string;
+  abbreviation: string;
+  name: string;
+}
+
+interface ChorotypeGroup {
+  prefix: string;
+  name: string;
+  interpolator: (t: number) => string;
+}
+
+export const CHOROTYPE_GROUPS: ChorotypeGroup[] = [
+  { prefix: '1', name: "Holarctic and Palaearctic", interpolator: d3.interpolateBlues },
+  { prefix: '2', name: "European", interpolator: d3.interpolateGreens },
+  { prefix: '3', name: "Mediterranean", interpolator: d3.interpolateOranges },
+  { prefix: '4', name: "Afrotropical and Oriental", interpolator: d3.interpolatePurples }
+];
+
+export const CHOROTYPES: Chorotype[] = [
+  { code: "1.01", abbreviation: "OLA", name: "Holarctic" },
+  { code: "1.02", abbreviation: "PAL", name: "Palaearctic" },
+  { code: "1.03", abbreviation: "WPA", name: "West Palaearctic" },
+  { code: "1.04", abbreviation: "ASE", name: "Asiatic-European" },
+  { code: "1.05", abbreviation: "SIE", name: "Sibero-European" },
+  { code: "1.06", abbreviation: "CEM", name: "Centralasiatic-European-Mediterranean" },
+  { code: "1.07", abbreviation: "CAE", name: "Centralasiatic-European" },
+  { code: "1.08", abbreviation: "CAM", name: "Centralasiatic-Mediterranean" },
+  { code: "1.09", abbreviation: "TEM", name: "Turanic-European-Mediterranean" },
+  { code: "1.10", abbreviation: "TUE", name: "Turanic-European" },
+  { code: "1.11", abbreviation: "TUM", name: "Turanic-Mediterranean" },
+  { code: "1.12", abbreviation: "EUM", name: "European-Mediterranean" },
+  { code: "2.01", abbreviation: "EUR", name: "European" },
+  { code: "2.02", abbreviation: "CEU", name: "Central European" },
+  { code: "2.03", abbreviation: "SEU", name: "South European" },
+  { code: "2.04", abbreviation: "ATE", name: "Atlantic-European" },
+  { code: "2.05", abbreviation: "ALP", name: "Alpine" },
+  { code: "2.06", abbreviation: "BAL", name: "Balkan" },
+  { code: "3.01", abbreviation: "MED", name: "Mediterranean" },
+  { code: "3.02", abbreviation: "WME", name: "West Mediterranean" },
+  { code: "3.03", abbreviation: "EME", name: "East Mediterranean" },
+  { code: "3.04", abbreviation: "NAF", name: "North African" },
+  { code: "4.01", abbreviation: "AIM", name: "Afrotropical-Indian-Mediterranean" },
+  { code: "4.02", abbreviation: "AFM", name: "Afrotropical-Mediterranean" },
+  { code: "e", abbreviation: "END", name: "Endemic" },
+  { code: "cosmop", abbreviation: "COS", name: "Cosmopolitan" }
+];
+
+const BY_CODE = new Map(CHOROTYPES.map(c => [c.code, c]));
+
+const ENDEMIC_COLOR = '#B31529';
+const OTHER_COLOR = '#71717a';
+export const UNASSIGNED_COLOR = '#d4d4d8';
+
+// Spreadsheets turn "1.10" into 1.1, so a single digit after the point is padded
+// on the right; letters are compared lower-case
+export function normalizeChorotype(value: unknown): string {
+  const code = String(value ?? '').trim().toLowerCase().replace(/\.$/, '');
+  const numeric = code.match(/^(\d+)\.(\d+)$/);
+  return numeric ? `${numeric[1]}.${numeric[2].padEnd(2, '0')}` : code;
+}
+
+// Normalized code of a row, '' when the Corotipo column is blank
+export const chorotypeOf = (row: SpeciesData) => normalizeChorotype(row.Corotipo);
+
+export const chorotypeGroup = (code: string) => CHOROTYPE_GROUPS.find(g => code.startsWith(`${g.prefix}.`));
+
+// Readable name; codes missing from the dictionary are shown as they are
+export function chorotypeName(code: string): string {
+  if (!code) return 'Unassigned';
+  return BY_CODE.get(code)?.name ?? `Chorotype ${code}`;
+}
+
+// Short form for legends: "1.10 TUE", "END"
+export function chorotypeShortLabel(code: string): string {
+  if (!code) return 'Unassigned';
+  const chorotype = BY_CODE.get(code);
+  if (!chorotype) return code;
+  return /^\d/.test(code) ? `${code} ${chorotype.abbreviation}` : chorotype.abbreviation;
+}
+
+// Shades of the group hue, spread so that neighbouring codes stay distinguishable
+export function chorotypeColor(code: string): string {
+  if (!code) return UNASSIGNED_COLOR;
+  if (code === 'e') return ENDEMIC_COLOR;
+  const group = chorotypeGroup(code);
+  if (!group) return OTHER_COLOR;
+  const n = Number(code.split('.')[1]) - 1;
+  return group.interpolator(0.35 + 0.6 * (((n * 5) % 12) / 11));
+}
+
+// Numbered codes by value, then endemic and cosmopolitan, other codes, and unassigned last
+const collator = new Intl.Collator('en', { numeric: true });
+const sortRank = (code: string) => (!code ? 3 : /^\d/.test(code) ? 0 : BY_CODE.has(code) ? 1 : 2);
+
+export function compareChorotypes(a: string, b: string): number {
+  const rankA = sortRank(a);
+  const rankB = sortRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+  if (rankA === 1) return CHOROTYPES.indexOf(BY_CODE.get(a)!) - CHOROTYPES.indexOf(BY_CODE.get(b)!);
+  return collator.compare(a, b);
+}
+
+export interface ChorotypeCount {
+  code: string;
+  count: number;
+}
+
+// Number of rows per chorotype, in dictionary order
+export function chorotypeBreakdown(rows: SpeciesData[]): ChorotypeCount[] {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const code = chorotypeOf(row);
+    counts.set(code, (counts.get(code) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([code, count]) => ({ code, count }))
+    .sort((a, b) => compareChorotypes(a.code, b.code));
+}
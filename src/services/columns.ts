@@ -0,0 +1,101 @@
+import { RETAINED_COLUMNS, SOURCE_ONLY_COLUMNS, OPTIONAL_COLUMNS, MACRO_REGIONS, MARINE_SECTOR_COLUMNS } from '../types';
+
+// Table column selection: every column the table can show, named presets
+// (built-in plus user presets kept in localStorage) and remembered widths.
+
+export interface ColumnPreset {
+  name: string;
+  columns: string[];
+  builtIn?: boolean;
+}
+
+// Shown by default first, then the fields only kept from the source CSV
+export const AVAILABLE_COLUMNS = [...RETAINED_COLUMNS, ...SOURCE_ONLY_COLUMNS, ...OPTIONAL_COLUMNS];
+
+const NAME_COLUMNS = ["Nome Scientifico", "Autore"];
+
+export const BUILT_IN_PRESETS: ColumnPreset[] = [
+  { name: "Default", columns: RETAINED_COLUMNS, builtIn: true },
+  {
+    name: "Taxonomy only",
+    columns: [...NAME_COLUMNS, "Phylum", "Classe", "Ordine", "Famiglia", "Sottofamiglia", "Genere", "Sottogenere", "Specie", "Sottospecie"],
+    builtIn: true
+  },
+  { name: "Northern regions", columns: [...NAME_COLUMNS, "Famiglia", "N", ...MACRO_REGIONS.N], builtIn: true },
+  { name: "Southern regions", columns: [...NAME_COLUMNS, "Famiglia", "S", ...MACRO_REGIONS.S], builtIn: true },
+  { name: "Islands", columns: [...NAME_COLUMNS, "Famiglia", "Si", "Sa", "Cor", "M"], builtIn: true },
+  { name: "Marine sectors", columns: [...NAME_COLUMNS, "Famiglia", ...MARINE_SECTOR_COLUMNS], builtIn: true },
+  {
+    name: "Identifiers and notes",
+    columns: [
+      ...NAME_COLUMNS,
+      "Fauna Europaea (nome)",
+      "WORMS (AphiaID)",
+      "Corotipo",
+      "Note tassonomiche / Taxonomic notes",
+      "Note distribuzione / Distribution notes"
+    ],
+    builtIn: true
+  }
+];
+
+const PRESETS_KEY = 'fauna_italia_viewer.columnPresets';
+const WIDTHS_KEY = 'fauna_italia_viewer.columnWidths';
+
+// Storage may be unavailable (private mode) or hold stale data; fall back silently
+function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeStorage(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Not persisted; the choice still applies for this session
+  }
+}
+
+export function loadUserPresets(): ColumnPreset[] {
+  const presets = readStorage<ColumnPreset[]>(PRESETS_KEY, []);
+  if (!Array.isArray(presets)) return [];
+  return presets
+    .filter(p => p && typeof p.name === 'string' && Array.isArray(p.columns))
+    .map(p => ({ name: p.name, columns: p.columns.filter(col => AVAILABLE_COLUMNS.includes(col)) }));
+}
+
+export function saveUserPresets(presets: ColumnPreset[]) {
+  writeStorage(PRESETS_KEY, presets.map(({ name, columns }) => ({ name, columns })));
+}
+
+export function loadColumnWidths(): Record<string, number> {
+  const widths = readStorage<Record<string, number>>(WIDTHS_KEY, {});
+  return widths && typeof widths === 'object' ? widths : {};
+}
+
+export function saveColumnWidths(widths: Record<string, number>) {
+  writeStorage(WIDTHS_KEY, widths);
+}
+
+export const MIN_COLUMN_WIDTH = 48;
+
+export function defaultColumnWidth(col: string): number {
+  if (col === "Nome Scientifico") return 260;
+  if (col.startsWith("Note")) return 320;
+  if (col.length <= 3) return 64; // region and sector codes
+  return 160;
+}
+
+// Moves `col` to the position currently held by `target`
+export function moveColumn(columns: string[], col: string, target: string): string[] {
+  if (col === target) return columns;
+  const next = columns.filter(c => c !== col);
+  const index = next.indexOf(target);
+  const insertAt = columns.indexOf(col) < columns.indexOf(target) ? index + 1 : index;
+  next.splice(insertAt, 0, col);
+  return next;
+}
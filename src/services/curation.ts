@@ -0,0 +1,227 @@
+import Papa from 'papaparse';
+import {
+  SpeciesData,
+  DatasetInfo,
+  ValidationIssue,
+  DISTRIBUTION_COLUMNS,
+  DERIVED_COLUMNS,
+  TAXON_RANKS,
+  REGIONS_MAP,
+  MACRO_REGION_NAMES,
+  MARINE_SECTORS
+} from '../types';
+import { SourceRecord, validateRecord, findDuplicateNames } from './validation';
+import { withDerivedNames } from './dataService';
+
+// Curator edit mode: cell edits layered over the loaded checklist, their
+// validation, and the exports of the edited checklist and of what changed.
+
+export interface CellEdit {
+  // Position in the change log, and its storage key (see changeLog.ts)
+  seq: number;
+  dataset: string;
+  // Dataset version the edit was made on; edits made on another version are not applied
+  version: string;
+  line: number;
+  column: string;
+  before: string;
+  after: string;
+  at: string;
+}
+
+export const rowKey = (row: SpeciesData) => `${row.Dataset}:${row.Line}`;
+
+export const AUTHOR_COLUMNS = [
+  "Autore e anno genere",
+  "Autore e anno sottogenere",
+  "Autore e anno specie",
+  "Autore e anno sottospecie"
+];
+const NOTE_COLUMNS = ["Note tassonomiche / Taxonomic notes", "Note distribuzione / Distribution notes"];
+
+// Typed in; distribution columns are edited by cycling their status instead
+export const EDITABLE_TEXT_COLUMNS = [...TAXON_RANKS, ...AUTHOR_COLUMNS, "Corotipo", ...NOTE_COLUMNS];
+
+export const isStatusColumn = (column: string) => DISTRIBUTION_COLUMNS.includes(column);
+
+export const isEditable = (column: string) => isStatusColumn(column) || EDITABLE_TEXT_COLUMNS.includes(column);
+
+const STATUS_CYCLE = ['', 'y', '?'];
+
+// blank → y → ? → blank; anything else is cleared
+export const nextStatus = (status: string) => STATUS_CYCLE[(STATUS_CYCLE.indexOf(status) + 1) % STATUS_CYCLE.length];
+
+const text = (value: unknown) => String(value ?? '');
+
+export interface EditedChecklist {
+  rows: SpeciesData[];
+  // Edits made on another version of a loaded dataset
+  stale: CellEdit[];
+}
+
+// Applies the change log in order; untouched rows keep their identity, so
+// callers can tell edited rows by reference. Edits to datasets that are not
+// loaded are kept aside without being reported.
+export function applyEdits(rows: SpeciesData[], edits: CellEdit[], datasets: DatasetInfo[]): EditedChecklist {
+  if (edits.length === 0) return { rows, stale: [] };
+  const versions = new Map(datasets.map(dataset => [dataset.id, dataset.version]));
+  const loaded = new Set(rows.map(row => row.Dataset));
+  const byRow = new Map<string, CellEdit[]>();
+  const stale: CellEdit[] = [];
+
+  edits.forEach(edit => {
+    if (!loaded.has(edit.dataset)) return;
+    if (versions.get(edit.dataset) !== edit.version) {
+      stale.push(edit);
+      return;
+    }
+    const key = `${edit.dataset}:${edit.line}`;
+    if (!byRow.has(key)) byRow.set(key, []);
+    byRow.get(key)!.push(edit);
+  });
+
+  return {
+    rows: rows.map(row => {
+      const rowEdits = byRow.get(rowKey(row));
+      if (!rowEdits) return row;
+      const edited: SpeciesData = { ...row };
+      rowEdits.forEach(edit => { edited[edit.column] = edit.after; });
+      return withDerivedNames(edited);
+    }),
+    stale
+  };
+}
+
+// Issues of the loaded checklist, with the edited rows checked again as they
+// now stand; duplicate names are looked for across the whole edited list
+export function revalidate(
+  issues: ValidationIssue[],
+  original: SpeciesData[],
+  edited: SpeciesData[],
+  datasets: DatasetInfo[]
+): ValidationIssue[] {
+  const changed = edited.filter((row, i) => row !== original[i]);
+  if (changed.length === 0) return issues;
+  const changedKeys = new Set(changed.map(rowKey));
+  const isDuplicateIssue = (issue: ValidationIssue) => issue.column === "Nome Scientifico";
+
+  const kept = issues.filter(issue =>
+    !isDuplicateIssue(issue) && !(issue.line !== undefined && changedKeys.has(`${issue.dataset}:${issue.line}`))
+  );
+  const rechecked = changed.flatMap(row => {
+    const dataset = datasets.find(d => d.id === row.Dataset);
+    return dataset ? validateRecord({ row, line: row.Line }, dataset) : [];
+  });
+  return [...kept, ...rechecked, ...findDuplicateNames(edited)];
+}
+
+// Issues a cell value would raise, for feedback while it is being typed
+export function draftIssues(row: SpeciesData, column: string, value: string, dataset: DatasetInfo): ValidationIssue[] {
+  return validateRecord({ row: { ...row, [column]: value }, line: row.Line }, dataset)
+    .filter(issue => issue.column === column);
+}
+
+export interface CellChange {
+  column: string;
+  before: string;
+  after: string;
+}
+
+export interface RowChange {
+  dataset: string;
+  line: number;
+  name: string;
+  // Set when the edits changed the scientific name itself
+  previousName?: string;
+  changes: CellChange[];
+}
+
+const sourceColumns = (row: SpeciesData, headers: Record<string, string[]>) =>
+  headers[row.Dataset] ?? Object.keys(row).filter(col => !DERIVED_COLUMNS.includes(col));
+
+// Net differences between the loaded and the edited rows, in checklist order;
+// edits that were later reverted leave no trace
+export function diffChecklists(
+  original: SpeciesData[],
+  edited: SpeciesData[],
+  headers: Record<string, string[]>
+): RowChange[] {
+  return original.flatMap((row, i) => {
+    const next = edited[i];
+    if (next === row) return [];
+    const changes = sourceColumns(row, headers)
+      .filter(col => text(row[col]) !== text(next[col]))
+      .map(col => ({ column: col, before: text(row[col]), after: text(next[col]) }));
+    if (changes.length === 0) return [];
+    const renamed = row["Nome Scientifico"] !== next["Nome Scientifico"];
+    return [{
+      dataset: row.Dataset,
+      line: row.Line,
+      name: next["Nome Scientifico"],
+      previousName: renamed ? row["Nome Scientifico"] : undefined,
+      changes
+    }];
+  });
+}
+
+const STATUS_WORDS: Record<string, string> = { y: 'present', '?': 'doubtful', '': 'absent' };
+
+export const territoryName = (code: string) =>
+  REGIONS_MAP[code] ?? MACRO_REGION_NAMES[code] ?? (MARINE_SECTORS[code] && `sector ${code}, ${MARINE_SECTORS[code]}`);
+
+function describeChange({ column, before, after }: CellChange): string {
+  if (isStatusColumn(column)) {
+    const word = (status: string) => STATUS_WORDS[status] ?? `"${status}"`;
+    return `${column} (${territoryName(column)}): ${word(before)} → ${word(after)}`;
+  }
+  const quote = (value: string) => (value ? `"${value}"` : '(blank)');
+  return `${column}: ${quote(before)} → ${quote(after)}`;
+}
+
+// Human-readable Markdown changelog, grouped by dataset
+export function toChangelog(changes: RowChange[], datasets: DatasetInfo[], date: string): string {
+  const lines = ['# Checklist changes', '', `${changes.length} taxa changed · ${date}`];
+  datasets.forEach(dataset => {
+    const rows = changes.filter(change => change.dataset === dataset.id);
+    if (rows.length === 0) return;
+    lines.push('', `## ${dataset.label} (${dataset.file}, version ${dataset.version})`);
+    rows.forEach(row => {
+      const title = row.previousName ? `${row.previousName} → ${row.name}` : row.name;
+      lines.push('', `### ${title} (line ${row.line})`, '');
+      row.changes.forEach(change => lines.push(`- ${describeChange(change)}`));
+    });
+  });
+  return lines.join('\n') + '\n';
+}
+
+// One line per changed cell, for scripts and spreadsheets
+export function changesToCsv(changes: RowChange[]): string {
+  return Papa.unparse({
+    fields: ["Dataset", "Line", "Nome Scientifico", "Column", "Before", "After"],
+    data: changes.flatMap(row =>
+      row.changes.map(change => [row.dataset, row.line, row.name, change.column, change.before, change.after])
+    )
+  }, { newline: '\n' });
+}
+
+// A dataset written back in its source layout: same header, every source record
+// in source order (including those the viewer did not load), and the values as
+// they were in the file except for the edited cells
+export function toChecklistCsv(records: SourceRecord[], header: string[], changes: RowChange[]): string {
+  const byLine = new Map(changes.map(change => [change.line, change.changes]));
+  const csv = Papa.unparse({
+    fields: header,
+    data: records.map(({ row, line }) => {
+      const values: Record<string, unknown> = { ...row };
+      byLine.get(line)?.forEach(change => { values[change.column] = change.after; });
+      return header.map(col => text(values[col]));
+    })
+  }, { newline: '\n' });
+  // The byte-order mark lets Excel open the file as UTF-8, as the source files do
+  return `\uFEFF${csv}\n`;
+}
+
+// Named as the source file, always with a .csv extension: an imported dataset
+// may come from a workbook or a .tsv, but is written back as CSV
+export const checklistFileName = (dataset: DatasetInfo) =>
+  `${dataset.file.split('/').pop()?.replace(/\.[^.]+$/, '') || dataset.id}.csv`;
@@ -0,0 +1,241 @@
+import { zipSync, strToU8 } from 'fflate';
+import { SpeciesData, DatasetInfo, REGIONS_MAP } from '../types';
+import { parseName, formatName } from './nomenclature';
+import { escapeMarkup } from './markup';
+
+// Darwin Core Archive export: one Taxon core record per row and one GBIF
+// Distribution extension record per territory where the taxon is recorded.
+
+const DWC = 'http://rs.tdwg.org/dwc/terms/';
+const GBIF = 'http://rs.gbif.org/terms/1.0/';
+
+const TAXON_TERMS = [
+  'taxonID',
+  'scientificNameID',
+  'scientificName',
+  'scientificNameAuthorship',
+  'kingdom',
+  'phylum',
+  'class',
+  'order',
+  'family',
+  'genus',
+  'subgenus',
+  'specificEpithet',
+  'infraspecificEpithet',
+  'taxonRank',
+  'nomenclaturalCode',
+  'taxonRemarks'
+];
+
+const DISTRIBUTION_TERMS = [
+  'locationID',
+  'locality',
+  'countryCode',
+  'occurrenceStatus',
+  'establishmentMeans',
+  'occurrenceRemarks'
+];
+
+// ISO identifiers for the checklist territories: ISO 3166-2 subdivisions, and
+// ISO 3166-1 country codes for San Marino, Vatican City and Malta
+const REGION_LOCATIONS: Record<string, { iso: string; country: string }> = {
+  Ao: { iso: "IT-23", country: "IT" },
+  Pi: { iso: "IT-21", country: "IT" },
+  Lo: { iso: "IT-25", country: "IT" },
+  VT: { iso: "IT-32", country: "IT" },
+  V: { iso: "IT-34", country: "IT" },
+  FVG: { iso: "IT-36", country: "IT" },
+  Li: { iso: "IT-42", country: "IT" },
+  ER: { iso: "IT-45", country: "IT" },
+  To: { iso: "IT-52", country: "IT" },
+  Ma: { iso: "IT-57", country: "IT" },
+  Um: { iso: "IT-55", country: "IT" },
+  La: { iso: "IT-62", country: "IT" },
+  Abr: { iso: "IT-65", country: "IT" },
+  Mo: { iso: "IT-67", country: "IT" },
+  Cp: { iso: "IT-72", country: "IT" },
+  Pu: { iso: "IT-75", country: "IT" },
+  Bas: { iso: "IT-77", country: "IT" },
+  Cal: { iso: "IT-78", country: "IT" },
+  Si: { iso: "IT-82", country: "IT" },
+  Sa: { iso: "IT-88", country: "IT" },
+  RSM: { iso: "SM", country: "SM" },
+  CV: { iso: "VA", country: "VA" },
+  CT: { iso: "CH-TI", country: "CH" },
+  Cor: { iso: "FR-20R", country: "FR" },
+  M: { iso: "MT", country: "MT" }
+};
+
+const RANK_TERMS: Record<string, string> = {
+  Phylum: "phylum",
+  Classe: "class",
+  Ordine: "order",
+  Famiglia: "family",
+  Sottofamiglia: "subfamily",
+  Genere: "genus",
+  Sottogenere: "subgenus",
+  Specie: "species",
+  Sottospecie: "subspecies"
+};
+
+const OCCURRENCE_STATUS: Record<string, string> = { y: 'present', '?': 'doubtful' };
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+const locationId = (iso: string) => `${iso.includes('-') ? 'ISO_3166-2' : 'ISO_3166-1'}:${iso}`;
+
+// Stable across releases, unlike the source line number
+const nameId = (row: SpeciesData) => `${row.Dataset}:${text(row["Nome Scientifico"]).replace(/\s+/g, '_')}`;
+
+// The taxonID of each row. A name listed more than once (validation reports
+// it) would repeat the core ID, which archive consumers reject, so the rows
+// sharing a name get their source line appended.
+export function taxonIds(rows: SpeciesData[]): string[] {
+  const ids = rows.map(nameId);
+  const counts = new Map<string, number>();
+  ids.forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+  return ids.map((id, i) => (counts.get(id)! > 1 ? `${id}:${rows[i].Line}` : id));
+}
+
+export function toTaxonRecord(row: SpeciesData, id: string): Record<string, string> {
+  const aphiaId = text(row["WORMS (AphiaID)"]);
+  const name = parseName(row);
+  return {
+    taxonID: id,
+    scientificNameID: aphiaId ? `urn:lsid:marinespecies.org:taxname:${aphiaId}` : '',
+    scientificName: formatName(name, 'full'),
+    scientificNameAuthorship: name.authority,
+    kingdom: 'Animalia',
+    phylum: text(row.Phylum),
+    class: text(row.Classe),
+    order: text(row.Ordine),
+    family: text(row.Famiglia),
+    genus: name.genus,
+    // DwC expects the subgenus in the "Genus (Subgenus)" form
+    subgenus: name.subgenus ? `${name.genus} (${name.subgenus})` : '',
+    specificEpithet: name.species,
+    infraspecificEpithet: name.subspecies,
+    taxonRank: name.subspecies ? 'subspecies' : 'species',
+    nomenclaturalCode: 'ICZN',
+    taxonRemarks: text(row["Note tassonomiche / Taxonomic notes"])
+  };
+}
+
+// Endemics are native everywhere they occur; aliens are introduced.
+// Taxa with neither flag are left blank rather than assumed native.
+function establishment(row: SpeciesData): { establishmentMeans: string; occurrenceRemarks: string } {
+  if (text(row.Alien)) return { establishmentMeans: 'introduced', occurrenceRemarks: '' };
+  if (text(row.End)) return { establishmentMeans: 'native', occurrenceRemarks: 'endemic to the checklist area' };
+  return { establishmentMeans: '', occurrenceRemarks: '' };
+}
+
+export function toDistributionRecords(row: SpeciesData): Record<string, string>[] {
+  return Object.keys(REGIONS_MAP)
+    .filter(code => OCCURRENCE_STATUS[row[code]])
+    .map(code => ({
+      locationID: locationId(REGION_LOCATIONS[code].iso),
+      locality: REGIONS_MAP[code],
+      countryCode: REGION_LOCATIONS[code].country,
+      occurrenceStatus: OCCURRENCE_STATUS[row[code]],
+      ...establishment(row)
+    }));
+}
+
+// Tab-separated with a header line; tabs and line breaks inside values become spaces
+const toTsv = (header: string[], records: string[][]) =>
+  [header, ...records]
+    .map(fields => fields.map(field => field.replace(/[\t\r\n]+/g, ' ')).join('\t'))
+    .join('\n') + '\n';
+
+const fieldList = (terms: string[], namespace: string, offset: number) =>
+  terms
+    .map((term, i) => `    <field index="${i + offset}" term="${namespace}${term}"/>`)
+    .join('\n');
+
+function buildMeta(): string {
+  const attributes = 'encoding="UTF-8" fieldsTerminatedBy="\\t" linesTerminatedBy="\\n" fieldsEnclosedBy="" ignoreHeaderLines="1"';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<archive xmlns="http://rs.tdwg.org/dwc/text/" metadata="eml.xml">
+  <core ${attributes} rowType="${DWC}Taxon">
+    <files><location>taxon.txt</location></files>
+    <id index="0"/>
+${fieldList(TAXON_TERMS, DWC, 0)}
+  </core>
+  <extension ${attributes} rowType="${GBIF}Distribution">
+    <files><location>distribution.txt</location></files>
+    <coreid index="0"/>
+${fieldList(DISTRIBUTION_TERMS, DWC, 1)}
+  </extension>
+</archive>
+`;
+}
+
+function buildEml(datasets: DatasetInfo[], taxonCount: number, date: string): string {
+  const title = `Checklist of Italian Fauna — ${datasets.map(d => d.label).join(', ')}`;
+  const curators = [...new Set(datasets.map(d => d.curator))];
+  const person = (name: string) => `<individualName><surName>${escapeMarkup(name)}</surName></individualName>`;
+  const versions = datasets.map(d => `${d.label} v${d.version}`).join('; ');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<eml:eml xmlns:eml="eml://ecoinformatics.org/eml-2.1.1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="eml://ecoinformatics.org/eml-2.1.1 http://rs.gbif.org/schema/eml-gbif-profile/1.1/eml.xsd"
+  packageId="fauna-italia-${datasets.map(d => `${d.id}-${d.version}`).join('_')}" system="http://gbif.org" scope="system" xml:lang="en">
+  <dataset>
+    <title xml:lang="en">${escapeMarkup(title)}</title>
+${curators.map(name => `    <creator>${person(name)}</creator>`).join('\n')}
+${curators.map(name => `    <metadataProvider>${person(name)}</metadataProvider>`).join('\n')}
+    <pubDate>${date}</pubDate>
+    <language>en</language>
+    <abstract>
+      <para>${escapeMarkup(`Checklist of ${taxonCount} taxa with their distribution in the Italian regions and neighbouring territories. Dataset versions: ${versions}.`)}</para>
+    </abstract>
+    <coverage>
+      <geographicCoverage>
+        <geographicDescription>Italy, San Marino, Vatican City, Canton Ticino, Corsica and the Maltese archipelago</geographicDescription>
+        <boundingCoordinates>
+          <westBoundingCoordinate>6.6</westBoundingCoordinate>
+          <eastBoundingCoordinate>18.6</eastBoundingCoordinate>
+          <northBoundingCoordinate>47.1</northBoundingCoordinate>
+          <southBoundingCoordinate>35.8</southBoundingCoordinate>
+        </boundingCoordinates>
+      </geographicCoverage>
+      <taxonomicCoverage>
+${datasets.map(d => `        <taxonomicClassification>
+          <taxonRankName>${RANK_TERMS[d.taxon.rank] ?? escapeMarkup(d.taxon.rank)}</taxonRankName>
+          <taxonRankValue>${escapeMarkup(d.taxon.name)}</taxonRankValue>
+        </taxonomicClassification>`).join('\n')}
+      </taxonomicCoverage>
+    </coverage>
+${curators.map(name => `    <contact>${person(name)}</contact>`).join('\n')}
+  </dataset>
+  <additionalMetadata>
+    <metadata>
+      <gbif>
+        <dateStamp>${date}</dateStamp>
+        <hierarchyLevel>dataset</hierarchyLevel>
+      </gbif>
+    </metadata>
+  </additionalMetadata>
+</eml:eml>
+`;
+}
+
+// Builds the archive in memory; `datasets` describes the checklists the rows come from
+export function buildDarwinCoreArchive(rows: SpeciesData[], datasets: DatasetInfo[]): Blob {
+  const ids = taxonIds(rows);
+  const taxa = rows.map((row, i) => toTaxonRecord(row, ids[i]));
+  const distribution = rows.flatMap((row, i) =>
+    toDistributionRecords(row).map(record => [ids[i], ...DISTRIBUTION_TERMS.map(term => record[term])])
+  );
+  const date = new Date().toISOString().slice(0, 10);
+
+  const archive = zipSync({
+    'meta.xml': strToU8(buildMeta()),
+    'eml.xml': strToU8(buildEml(datasets, rows.length, date)),
+    'taxon.txt': strToU8(toTsv(TAXON_TERMS, taxa.map(record => TAXON_TERMS.map(term => record[term])))),
+    'distribution.txt': strToU8(toTsv(['taxonID', ...DISTRIBUTION_TERMS], distribution))
+  });
+  return new Blob([archive], { type: 'application/zip' });
+}
@@ -1,52 +1,132 @@
 import Papa from 'papaparse';
-import { SpeciesData } from '../types';
+import { SpeciesData, DatasetInfo, ValidationIssue, DISTRIBUTION_COLUMNS } from '../types';
+import { SourceRecord, validateChecklist, findDuplicateNames, normalizeStatus } from './validation';
+import { parseName, formatName } from './nomenclature';
+import { generateSyntheticCsv, syntheticDataset } from './syntheticData';
 
-export async function loadAndProcessData(): Promise<SpeciesData[]> {
-  const response = await fetch('./data.csv');
-  const csvText = await response.text();
-  
+export const MANIFEST_URL = './datasets.json';
+// Set at build time (SYNTHETIC_ROWS=60000 npm run dev) to add a generated dataset for load testing
+const SYNTHETIC_ROWS = Number(process.env.SYNTHETIC_ROWS) || 0;
+
+// Parsed datasets are cached by id so toggling the picker does not refetch
+const datasetCache = new Map<string, Promise<ChecklistResult>>();
+
+// `fresh` skips the offline copy, to see what is currently published
+export async function loadManifest(fresh = false): Promise<DatasetInfo[]> {
+  const response = await fetch(MANIFEST_URL, fresh ? { cache: 'no-store' } : undefined);
+  if (!response.ok) {
+    throw new Error(`Failed to load dataset manifest (${response.status})`);
+  }
+  const manifest = await response.json();
+  const datasets = manifest.datasets as DatasetInfo[];
+  return SYNTHETIC_ROWS > 0 ? [...datasets, syntheticDataset(SYNTHETIC_ROWS)] : datasets;
+}
+
+export interface ChecklistResult {
+  data: SpeciesData[];
+  issues: ValidationIssue[];
+  // Source CSV header of each dataset, by id, for writing the rows back out
+  headers: Record<string, string[]>;
+  // Every record of the source file by dataset id, loaded or not, so that a
+  // dataset written back out keeps the rows the viewer skips
+  sources: Record<string, SourceRecord[]>;
+}
+
+// Reads the raw CSV rows together with the 1-based line each row starts on
+function readRecords(csvText: string): Promise<{ fields: string[]; records: SourceRecord[] }> {
   return new Promise((resolve) => {
-    Papa.parse(csvText, {
+    const records: SourceRecord[] = [];
+    let fields: string[] = [];
+    let lineCount = 0;
+    let scanned = 0;
+
+    Papa.parse<Record<string, string>>(csvText, {
       header: true,
       skipEmptyLines: true,
-      complete: (results) => {
-        const rawData = results.data as any[];
-        
-        const processed = rawData
-          .filter(row => row.Genere && row.Specie) // Remove rows where Genere or Specie are missing
-          .map(row => {
-            // Create Nome Scientifico following standard nomenclature: Genus (Subgenus) species subspecies
-            const genus = row.Genere?.trim() || "";
-            const subgenus = row.Sottogenere?.trim() || "";
-            const species = row.Specie?.trim() || "";
-            const subspecies = row.Sottospecie?.trim() || "";
-
-            const nomeScientifico = [
-              genus,
-              subgenus ? `(${subgenus})` : "",
-              species,
-              subspecies
-            ].filter(p => p !== "").join(" ");
-            
-            // Conditional retention logic for authors
-            const hasSubspecies = !!row.Sottospecie && row.Sottospecie.trim() !== "";
-            
-            const result: any = {
-              ...row,
-              "Nome Scientifico": nomeScientifico,
-              "Autore": hasSubspecies ? row["Autore e anno sottospecie"] : row["Autore e anno specie"]
-            };
-
-            // If subspecies exists, we might want to prioritize "Autore e anno sottospecie"
-            // The user said: "Autore e anno specie (only if there is no subspecies), Autore e anno sottospecie (if there is a subspecies)"
-            // This suggests we should probably merge them into a single "Autore" column or just handle them carefully.
-            // For now, I'll keep both but the user can filter/view them.
-            
-            return result as SpeciesData;
-          });
-          
-        resolve(processed);
-      }
+      step: (result) => {
+        fields = result.meta.fields || fields;
+        // The cursor sits after the row terminator; count lines up to the row's end
+        const cursor = result.meta.cursor;
+        const end = csvText[cursor - 1] === '\n' ? cursor - 1 : cursor;
+        for (; scanned < end; scanned++) {
+          if (csvText[scanned] === '\n') lineCount++;
+        }
+        const embedded = Object.values(result.data)
+          .reduce((n, value) => n + (String(value).match(/\n/g)?.length || 0), 0);
+        records.push({ row: result.data, line: lineCount + 1 - embedded });
+      },
+      complete: () => resolve({ fields, records })
     });
   });
 }
+
+// Scientific name and authority as shown in the table, built from the rank and author columns
+export function withDerivedNames<T extends Record<string, any>>(row: T): T {
+  const name = parseName(row);
+  return { ...row, "Nome Scientifico": formatName(name, 'short'), "Autore": name.authority };
+}
+
+function processRecord({ row, line }: SourceRecord, dataset: DatasetInfo): SpeciesData {
+  const result: any = withDerivedNames({
+    ...row,
+    "Dataset": dataset.id,
+    "File": dataset.file,
+    "Line": line
+  });
+
+  // Status codes are compared as lowercase 'y' / '?' everywhere else
+  DISTRIBUTION_COLUMNS.forEach(col => {
+    if (col in row) result[col] = normalizeStatus(row[col]);
+  });
+
+  return result as SpeciesData;
+}
+
+export async function parseChecklist(csvText: string, dataset: DatasetInfo): Promise<ChecklistResult> {
+  const { fields, records } = await readRecords(csvText);
+  const issues = validateChecklist(fields, records, dataset);
+
+  const data = records
+    .filter(({ row }) => row.Genere?.trim() && row.Specie?.trim()) // Rows without Genere or Specie are reported, not loaded
+    .map(record => processRecord(record, dataset));
+
+  return {
+    data,
+    issues,
+    headers: { [dataset.id]: fields.map(field => field.trim()) },
+    sources: { [dataset.id]: records }
+  };
+}
+
+export function loadDataset(dataset: DatasetInfo): Promise<ChecklistResult> {
+  let cached = datasetCache.get(dataset.id);
+  if (!cached && dataset.file.startsWith('synthetic:')) {
+    cached = parseChecklist(generateSyntheticCsv(Number(dataset.file.slice('synthetic:'.length))), dataset);
+    datasetCache.set(dataset.id, cached);
+  }
+  if (!cached) {
+    cached = fetch(`./${dataset.file}`)
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load ${dataset.file} (${response.status})`);
+        }
+        return response.text();
+      })
+      .then(csvText => parseChecklist(csvText, dataset));
+    // Do not keep failed fetches around, so a later selection can retry
+    cached.catch(() => datasetCache.delete(dataset.id));
+    datasetCache.set(dataset.id, cached);
+  }
+  return cached;
+}
+
+// Merges datasets into a single list; names are only checked for duplicates across the merge
+export function mergeChecklists(parts: ChecklistResult[]): ChecklistResult {
+  const data = parts.flatMap(part => part.data);
+  return {
+    data,
+    issues: [...parts.flatMap(part => part.issues), ...findDuplicateNames(data)],
+    headers: Object.assign({}, ...parts.map(part => part.headers)),
+    sources: Object.assign({}, ...parts.map(part => part.sources))
+  };
+}
@@ -0,0 +1,65 @@
+import { DatasetInfo } from '../types';
+import { ChecklistResult, loadManifest, loadDataset, mergeChecklists } from './dataService';
+
+// Where the viewer gets its checklists: the static CSV files next to the page
+// (GitHub Pages) or the API server in server/ (internal deployment). Chosen at
+// build time with DATA_API_URL, see the README.
+
+export interface DataSource {
+  // `fresh` bypasses any cached copy, for update checks
+  loadManifest: (fresh?: boolean) => Promise<DatasetInfo[]>;
+  // One dataset with its validation issues; merging is left to loadChecklist
+  loadDataset: (dataset: DatasetInfo) => Promise<ChecklistResult>;
+}
+
+const DATA_API_URL = process.env.DATA_API_URL || '';
+
+export const staticDataSource: DataSource = {
+  loadManifest,
+  loadDataset
+};
+
+async function getJson(url: string, what: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${what} (${response.status})`);
+  }
+  return response.json();
+}
+
+export function apiDataSource(baseUrl: string): DataSource {
+  const base = baseUrl.replace(/\/+$/, '');
+  // Same caching as the static loader: by dataset id, dropping failed requests
+  const cache = new Map<string, Promise<ChecklistResult>>();
+  const fetchDataset = (dataset: DatasetInfo) => {
+    let cached = cache.get(dataset.id);
+    if (!cached) {
+      cached = getJson(`${base}/datasets/${encodeURIComponent(dataset.id)}/checklist`, dataset.label);
+      cached.catch(() => cache.delete(dataset.id));
+      cache.set(dataset.id, cached);
+    }
+    return cached;
+  };
+
+  return {
+    loadManifest: async (fresh = false) =>
+      (await getJson(`${base}/datasets`, 'dataset manifest', fresh ? { cache: 'no-store' } : undefined)).datasets,
+    loadDataset: fetchDataset
+  };
+}
+
+export const dataSource: DataSource = DATA_API_URL ? apiDataSource(DATA_API_URL) : staticDataSource;
+
+// Checklists imported in the browser (see importer.ts), kept until the page is reloaded
+const importedChecklists = new Map<string, ChecklistResult>();
+
+export function addImportedChecklist(dataset: DatasetInfo, result: ChecklistResult) {
+  importedChecklists.set(dataset.id, result);
+}
+
+// Loads the datasets, imported or from the data source, and merges them into a single list
+export async function loadChecklist(datasets: DatasetInfo[]): Promise<ChecklistResult> {
+  return mergeChecklists(await Promise.all(
+    datasets.map(dataset => importedChecklists.get(dataset.id) ?? dataSource.loadDataset(dataset))
+  ));
+}
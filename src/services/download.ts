@@ -0,0 +1,24 @@
+// Saves generated content through a temporary link, entirely in the browser
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Opens generated HTML in a new tab; falls back to a download when pop-ups are blocked
+export function openBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  if (!window.open(url, '_blank')) {
+    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
+    return;
+  }
+  // The new tab needs the URL until it has loaded
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
@@ -0,0 +1,142 @@
+import { SpeciesData, REGIONS_MAP, DISTRIBUTION_COLUMNS, MARINE_SECTORS, TAXON_RANKS } from '../types';
+import { loadRegionGeometry } from './geoService';
+import { parseName, formatNameHtml, normalizeAuthority } from './nomenclature';
+import { escapeMarkup } from './markup';
+
+// Exports of the current table rows. Every format writes the rows in the order
+// given and, except for the region-level GeoJSON, only the chosen columns.
+
+const text = (value: unknown) => String(value ?? '');
+
+export function toCsv(rows: SpeciesData[], columns: string[]): Blob {
+  const escape = (value: unknown) => `"${text(value).replace(/"/g, '""')}"`;
+  const lines = [
+    columns.join(','),
+    ...rows.map(row => columns.map(col => escape(row[col])).join(','))
+  ];
+  return new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8;' });
+}
+
+const pick = (row: SpeciesData, columns: string[]) =>
+  Object.fromEntries(columns.map(col => [col, row[col] ?? '']));
+
+export function toJson(rows: SpeciesData[], columns: string[]): Blob {
+  return new Blob([JSON.stringify(rows.map(row => pick(row, columns)), null, 2)], { type: 'application/json' });
+}
+
+// Rows grouped by a column, keeping the order in which groups first appear
+function groupBy(rows: SpeciesData[], column: string): [string, SpeciesData[]][] {
+  const groups = new Map<string, SpeciesData[]>();
+  rows.forEach(row => {
+    const key = text(row[column]).trim();
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+  return [...groups.entries()];
+}
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+const sheetName = (name: string, used: Set<string>) => {
+  const base = (name || 'Unassigned').replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+  let candidate = base;
+  for (let i = 2; used.has(candidate); i++) candidate = `${base.slice(0, 27)} (${i})`;
+  used.add(candidate);
+  return candidate;
+};
+
+// One worksheet per family; SheetJS is loaded only when needed
+export async function toXlsx(rows: SpeciesData[], columns: string[]): Promise<Blob> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>();
+  groupBy(rows, "Famiglia").forEach(([family, familyRows]) => {
+    const sheet = XLSX.utils.json_to_sheet(familyRows.map(row => pick(row, columns)), { header: columns });
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetName(family, used));
+  });
+  if (workbook.SheetNames.length === 0) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([columns]), 'Species');
+  }
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+// Region polygons with the number of present, doubtful and recorded species
+export async function toGeoJson(rows: SpeciesData[]): Promise<Blob> {
+  const geometry = await loadRegionGeometry();
+  const features = geometry.features.map(feature => {
+    const code = feature.properties?.code as string;
+    const present = rows.filter(row => row[code] === 'y').length;
+    const doubtful = rows.filter(row => row[code] === '?').length;
+    return {
+      ...feature,
+      properties: { code, name: REGIONS_MAP[code] ?? code, present, doubtful, total: present + doubtful }
+    };
+  });
+  const collection = { type: 'FeatureCollection', features };
+  return new Blob([JSON.stringify(collection)], { type: 'application/geo+json' });
+}
+
+const STRUCTURE_COLUMNS = [...TAXON_RANKS, "Nome Scientifico", "Autore"];
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #18181b; max-width: 780px; margin: 40px auto; padding: 0 24px; line-height: 1.45; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  .caption { color: #71717a; font-size: 12px; margin-bottom: 32px; }
+  h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.08em; border-bottom: 1px solid #d4d4d8; padding-bottom: 4px; margin-top: 32px; }
+  h3 { font-size: 14px; font-weight: normal; margin: 18px 0 6px; }
+  .taxon { margin: 0 0 8px 16px; font-size: 13px; }
+  .details { color: #52525b; font-size: 11px; margin-left: 16px; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h2 { break-after: avoid; }
+    h3 { break-after: avoid; }
+    .taxon { break-inside: avoid; }
+  }
+`;
+
+function taxonEntry(row: SpeciesData, columns: string[]): string {
+  const distribution = columns
+    .filter(col => DISTRIBUTION_COLUMNS.includes(col) && (row[col] === 'y' || row[col] === '?'))
+    .map(col => {
+      // Bare sector numbers would read as footnotes
+      const label = col in MARINE_SECTORS ? `sector ${col}` : col;
+      return row[col] === '?' ? `${label}?` : label;
+    });
+  const details = columns
+    .filter(col => !STRUCTURE_COLUMNS.includes(col) && !DISTRIBUTION_COLUMNS.includes(col) && text(row[col]).trim())
+    .map(col => `${escapeMarkup(col)}: ${escapeMarkup(text(row[col]))}`);
+  if (distribution.length > 0) details.unshift(`Distribution: ${distribution.join(', ')}`);
+
+  return `<div class="taxon">
+    ${formatNameHtml(parseName(row), 'full')}
+    ${details.map(line => `<div class="details">${line}</div>`).join('')}
+  </div>`;
+}
+
+// Print-ready checklist grouped by family and genus, with names in italics and authorities in roman
+export function toPrintableChecklist(rows: SpeciesData[], columns: string[], title: string, caption: string): Blob {
+  const body = groupBy(rows, "Famiglia").map(([family, familyRows]) => `
+    <h2>${escapeMarkup(family || 'Unassigned')}</h2>
+    ${groupBy(familyRows, "Genere").map(([genus, genusRows]) => {
+      const author = normalizeAuthority(genusRows[0]["Autore e anno genere"]);
+      return `<h3><i>${escapeMarkup(genus)}</i>${author ? ` ${escapeMarkup(author)}` : ''}</h3>
+      ${genusRows.map(row => taxonEntry(row, columns)).join('')}`;
+    }).join('')}`).join('');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeMarkup(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeMarkup(title)}</h1>
+<div class="caption">${escapeMarkup(caption)} · ${rows.length} taxa</div>
+${body}
+<script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html;charset=utf-8' });
+}
@@ -0,0 +1,43 @@
+import { SpeciesData, REGIONS_MAP } from '../types';
+import { CladeStep } from './taxonomy';
+import { SpeciesStatus, STATUS_COLUMNS } from './speciesStatus';
+
+// Column filters shared by the table, the map and the sidebar: every non-empty
+// entry must be contained (case-insensitively) in the row's value for that column.
+// The value "*" matches any non-empty value.
+export type Filters = Record<string, string>;
+
+export const ANY_VALUE = '*';
+
+export function activeFilters(filters: Filters): [string, string][] {
+  return Object.entries(filters).filter(([, value]) => value !== '');
+}
+
+export function matchesFilters(row: SpeciesData, filters: Filters): boolean {
+  return activeFilters(filters).every(([key, value]) => {
+    const cellValue = String(row[key] || '').toLowerCase();
+    if (value === ANY_VALUE) return cellValue.trim() !== '';
+    return cellValue.includes(value.toLowerCase());
+  });
+}
+
+const statusOf = (col: string) =>
+  (Object.keys(STATUS_COLUMNS) as SpeciesStatus[]).find(status => STATUS_COLUMNS[status] === col);
+
+// Human-readable summary of the current selection, used as a figure title
+export function describeSelection(filters: Filters, query: string, clade: CladeStep[]): string {
+  const parts: string[] = [];
+  if (clade.length > 0) {
+    const last = clade[clade.length - 1];
+    parts.push(`${last.rank} ${last.name}`);
+  }
+  activeFilters(filters).forEach(([col, value]) => {
+    const region = REGIONS_MAP[col];
+    if (region && value.toLowerCase() === 'y') parts.push(`present in ${region}`);
+    else if (region && value === '?') parts.push(`doubtful in ${region}`);
+    else if (value === ANY_VALUE) parts.push(statusOf(col) ?? `${col} not empty`);
+    else parts.push(`${col} contains "${value}"`);
+  });
+  if (query.trim()) parts.push(query.trim());
+  return parts.length > 0 ? parts.join(' · ') : 'All species';
+}
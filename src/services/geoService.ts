@@ -0,0 +1,69 @@
+import * as topojson from 'topojson-client';
+import { MACRO_REGION_CODES, macroMembers } from './macroRegions';
+
+// Region outlines bundled with the app, so the map works without network access.
+// Each feature carries the checklist region code in `properties.code`.
+const REGIONS_URL = './geo/regions.topo.json';
+// Schematic marine sectors, keyed by sector number; drawn beneath the land, so
+// their landward edges only need to fall inside the coastline
+const MARINE_SECTORS_URL = './geo/marine_sectors.geo.json';
+
+let topologyPromise: Promise<any> | null = null;
+
+function loadTopology(): Promise<any> {
+  if (!topologyPromise) {
+    topologyPromise = fetch(REGIONS_URL).then(response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load map geometry (${response.status})`);
+      }
+      return response.json();
+    });
+    // Allow a retry after a failed load
+    topologyPromise.catch(() => { topologyPromise = null; });
+  }
+  return topologyPromise;
+}
+
+export function loadRegionGeometry(): Promise<GeoJSON.FeatureCollection> {
+  return loadTopology()
+    .then(topology => topojson.feature(topology, topology.objects.regions) as GeoJSON.FeatureCollection);
+}
+
+// One feature per macro-region, dissolved from its member regions along their
+// shared arcs; territories outside the macro-regions keep their own outline
+export function loadMacroRegionGeometry(): Promise<GeoJSON.FeatureCollection> {
+  return loadTopology().then(topology => {
+    const geometries: any[] = topology.objects.regions.geometries;
+    const membersOf = (macro: typeof MACRO_REGION_CODES[number]) => {
+      const members = macroMembers(macro);
+      return members.length > 0 ? members : [macro];
+    };
+    const grouped = new Set(MACRO_REGION_CODES.flatMap(membersOf));
+
+    const macroFeatures = MACRO_REGION_CODES.map(macro => ({
+      type: 'Feature' as const,
+      properties: { code: macro },
+      geometry: topojson.merge(topology, geometries.filter(g => membersOf(macro).includes(g.properties.code)))
+    }));
+    const others = geometries
+      .filter(g => !grouped.has(g.properties.code))
+      .map(g => topojson.feature(topology, g) as GeoJSON.Feature);
+
+    return { type: 'FeatureCollection', features: [...macroFeatures, ...others] } as GeoJSON.FeatureCollection;
+  });
+}
+
+let sectorsPromise: Promise<GeoJSON.FeatureCollection> | null = null;
+
+export function loadMarineSectorGeometry(): Promise<GeoJSON.FeatureCollection> {
+  if (!sectorsPromise) {
+    sectorsPromise = fetch(MARINE_SECTORS_URL).then(response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load marine sector geometry (${response.status})`);
+      }
+      return response.json();
+    });
+    sectorsPromise.catch(() => { sectorsPromise = null; });
+  }
+  return sectorsPromise;
+}
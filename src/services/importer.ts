@@ -0,0 +1,257 @@
+import Papa from 'papaparse';
+import {
+  SpeciesData,
+  DatasetInfo,
+  DISTRIBUTION_COLUMNS,
+  REGIONS_MAP,
+  MACRO_REGION_NAMES,
+  MARINE_SECTORS,
+  ORDER_COLUMN
+} from '../types';
+import { ChecklistResult, parseChecklist } from './dataService';
+import { parseNameString } from './nomenclature';
+
+// Checklists supplied by collaborators in their own layout: CSV or TSV with any
+// separator, or an Excel sheet. Columns are mapped onto the checklist columns,
+// statuses normalized, and the result loaded like any other dataset, entirely
+// in the browser.
+
+export interface SourceTable {
+  fields: string[];
+  rows: string[][];
+  // Worksheets of an Excel file; empty for delimited text
+  sheets: string[];
+  sheet: string;
+}
+
+const isExcel = (file: File) => /\.(xlsx|xls|ods)$/i.test(file.name);
+
+export const IMPORT_ACCEPT = '.csv,.tsv,.txt,.xlsx,.xls,.ods';
+
+// The first non-empty row is the header; blank rows are dropped
+function toTable(cells: string[][], sheets: string[], sheet: string): SourceTable {
+  const rows = cells
+    .map(row => row.map(cell => String(cell ?? '').trim()))
+    .filter(row => row.some(Boolean));
+  if (rows.length === 0) throw new Error('The file is empty');
+  const [fields, ...data] = rows;
+  return { fields, rows: data, sheets, sheet };
+}
+
+// Reads a delimited text or Excel file; `sheet` picks a worksheet other than the first
+export async function readTable(file: File, sheet?: string): Promise<SourceTable> {
+  if (isExcel(file)) {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const name = sheet && workbook.SheetNames.includes(sheet) ? sheet : workbook.SheetNames[0];
+    if (!name) throw new Error(`No worksheets in ${file.name}`);
+    const cells = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '' });
+    return toTable(cells, workbook.SheetNames, name);
+  }
+  const text = (await file.text()).replace(/^\uFEFF/, '');
+  // Papa guesses the separator (comma, semicolon, tab or pipe) from the first rows
+  const { data } = Papa.parse<string[]>(text, {
+    delimiter: /\.tsv$/i.test(file.name) ? '\t' : '',
+    skipEmptyLines: 'greedy'
+  });
+  return toTable(data, [], '');
+}
+
+const AUTHOR_COLUMNS: Record<string, string> = {
+  Genere: "Autore e anno genere",
+  Sottogenere: "Autore e anno sottogenere",
+  Specie: "Autore e anno specie",
+  Sottospecie: "Autore e anno sottospecie"
+};
+
+// Not a checklist column: a whole name in one cell, split up by mapRows
+export const NAME_TARGET = "Nome scientifico";
+const NAME_COLUMNS = ["Genere", "Sottogenere", "Specie", "Sottospecie", AUTHOR_COLUMNS.Specie, AUTHOR_COLUMNS.Sottospecie];
+
+// Mapping targets, grouped as offered in the importer
+export const IMPORT_TARGETS: { group: string; columns: string[] }[] = [
+  {
+    group: 'Taxonomy',
+    columns: [NAME_TARGET, "Phylum", "Classe", "Ordine", "Famiglia", "Sottofamiglia"]
+      .concat(...["Genere", "Sottogenere", "Specie", "Sottospecie"].map(rank => [rank, AUTHOR_COLUMNS[rank]]))
+  },
+  { group: 'Names and identifiers', columns: ["Fauna Europaea (nome)", "WORMS (AphiaID)", ORDER_COLUMN] },
+  { group: 'Status', columns: ["End", "Alien"] },
+  { group: 'Distribution', columns: DISTRIBUTION_COLUMNS },
+  {
+    group: 'Other',
+    columns: [
+      "Categorie Uccelli",
+      "Corotipo",
+      "Note tassonomiche / Taxonomic notes",
+      "Note distribuzione / Distribution notes"
+    ]
+  }
+];
+
+const TARGET_COLUMNS = IMPORT_TARGETS.flatMap(group => group.columns);
+
+// "Sardegna ", "SARDEGNA" and "sardegna" all read "sardegna"; accents are dropped
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9?]+/g, ' ').trim();
+
+// Other names for the columns, besides their own name and the territory names
+const HEADER_ALIASES: Record<string, string[]> = {
+  [NAME_TARGET]: ['scientific name', 'scientificname', 'taxon name', 'taxon', 'name', 'nome', 'species name', 'binomial'],
+  Classe: ['class'],
+  Ordine: ['order'],
+  Famiglia: ['family'],
+  Sottofamiglia: ['subfamily'],
+  Genere: ['genus'],
+  Sottogenere: ['subgenus'],
+  Specie: ['species', 'specific epithet', 'species epithet', 'epithet'],
+  Sottospecie: ['subspecies', 'infraspecific epithet', 'subspecific epithet'],
+  "Autore e anno genere": ['genus author', 'genus authority', 'author genus'],
+  "Autore e anno sottogenere": ['subgenus author', 'subgenus authority', 'author subgenus'],
+  "Autore e anno specie": ['species author', 'species authority', 'author', 'authority', 'author year', 'autore', 'scientific name authorship'],
+  "Autore e anno sottospecie": ['subspecies author', 'subspecies authority', 'author subspecies'],
+  "Fauna Europaea (nome)": ['fauna europaea', 'fauna europaea name', 'fe name'],
+  "WORMS (AphiaID)": ['worms', 'aphiaid', 'aphia id', 'worms id'],
+  [ORDER_COLUMN]: ['sort order', 'sequence'],
+  End: ['endemic', 'endemism', 'endemico', 'endemismo'],
+  Alien: ['introduced', 'alieno', 'alloctono', 'non native'],
+  "Categorie Uccelli": ['bird categories', 'bird category'],
+  Corotipo: ['chorotype', 'chorological category'],
+  "Note tassonomiche / Taxonomic notes": ['taxonomic notes', 'note tassonomiche', 'notes', 'note', 'remarks'],
+  "Note distribuzione / Distribution notes": ['distribution notes', 'note distribuzione', 'distribution remarks'],
+  N: ['north', 'northern italy'],
+  S: ['south', 'peninsular italy', 'southern italy'],
+  Si: ['sicily'],
+  Sa: ['sardinia'],
+  Ao: ['aosta valley', 'aosta'],
+  Pi: ['piedmont'],
+  Lo: ['lombardy'],
+  VT: ['trentino alto adige', 'trentino south tyrol', 'trentino'],
+  FVG: ['friuli venezia giulia', 'friuli'],
+  ER: ['emilia romagna'],
+  To: ['tuscany'],
+  Ma: ['the marches'],
+  La: ['latium'],
+  Pu: ['apulia'],
+  RSM: ['san marino'],
+  CV: ['vatican', 'vatican city'],
+  CT: ['ticino'],
+  M: ['malta', 'maltese islands']
+};
+
+const HEADER_KEYS = new Map<string, string>();
+TARGET_COLUMNS.forEach(column => {
+  const names = [
+    column,
+    REGIONS_MAP[column],
+    MACRO_REGION_NAMES[column],
+    ...(MARINE_SECTORS[column] ? [MARINE_SECTORS[column], `sector ${column}`, `settore ${column}`] : []),
+    ...(HEADER_ALIASES[column] ?? [])
+  ];
+  names.filter(Boolean).forEach(name => {
+    const key = normalizeHeader(name);
+    if (!HEADER_KEYS.has(key)) HEADER_KEYS.set(key, column);
+  });
+});
+
+// Target column per source column, '' to leave it out; each target is
+// suggested once, for the first column that matches it
+export function suggestMapping(fields: string[]): string[] {
+  const used = new Set<string>();
+  const claim = (target: string | undefined) => {
+    if (!target || used.has(target)) return '';
+    used.add(target);
+    return target;
+  };
+  // Exact names first, so a checklist already in the standard layout maps onto itself
+  const exact = fields.map(field => claim(TARGET_COLUMNS.find(column => column === field)));
+  return fields.map((field, i) => exact[i] || claim(HEADER_KEYS.get(normalizeHeader(field))));
+}
+
+const PRESENT_VALUES = ['y', 'yes', 'x', '+', '1', 'p', 'present', 'presente', 'si', 'true'];
+const DOUBTFUL_VALUES = ['?', 'd', 'doubtful', 'dubbio', 'uncertain', 'y?', '?y'];
+const ABSENT_VALUES = ['', 'n', 'no', '-', '0', 'absent', 'assente', 'false'];
+
+// y, ? or blank; anything unrecognised is kept and reported when loading
+export function normalizeImportedStatus(value: string): string {
+  const key = normalizeHeader(value) || value.trim();
+  if (PRESENT_VALUES.includes(key)) return 'y';
+  if (DOUBTFUL_VALUES.includes(key)) return '?';
+  if (ABSENT_VALUES.includes(key)) return '';
+  return value.trim();
+}
+
+// End and Alien count any mark; explicit "no" answers are cleared
+const normalizeMark = (value: string) => (ABSENT_VALUES.includes(normalizeHeader(value)) ? '' : value.trim());
+
+function importedValue(column: string, value: string): string {
+  if (DISTRIBUTION_COLUMNS.includes(column)) return normalizeImportedStatus(value);
+  if (column === "End" || column === "Alien") return normalizeMark(value);
+  return value;
+}
+
+// Genere and Specie are needed, unless a scientific name column provides them
+export function missingTargets(mapping: string[]): string[] {
+  if (mapping.includes(NAME_TARGET)) return [];
+  return ["Genere", "Specie"].filter(target => !mapping.includes(target));
+}
+
+// The rank and author columns read from a scientific name; "sp." and "cf."
+// stay in Specie, as the checklists write them
+function nameColumns(value: string): Record<string, string> {
+  const name = parseNameString(value);
+  return {
+    Genere: name.genus,
+    Sottogenere: name.subgenus,
+    Specie: [name.qualifier, name.species].filter(Boolean).join(' '),
+    Sottospecie: name.subspecies,
+    [AUTHOR_COLUMNS.Specie]: name.subspecies ? '' : name.authority,
+    [AUTHOR_COLUMNS.Sottospecie]: name.subspecies ? name.authority : ''
+  };
+}
+
+// The mapped rows as records under their checklist column names. Columns
+// mapped on their own win over the parts of a scientific name.
+export function mapRows(table: SourceTable, mapping: string[]): Record<string, string>[] {
+  const nameIndex = mapping.indexOf(NAME_TARGET);
+  return table.rows.map(row => {
+    const record: Record<string, string> = nameIndex >= 0 ? nameColumns(row[nameIndex] ?? '') : {};
+    mapping.forEach((column, i) => {
+      if (!column || column === NAME_TARGET) return;
+      const value = importedValue(column, row[i] ?? '');
+      if (value || !record[column]) record[column] = value;
+    });
+    return record;
+  });
+}
+
+// Written out as a standard checklist CSV and loaded through parseChecklist, so an
+// import is validated and processed exactly like a bundled file. Line numbers in
+// the reported issues count the non-blank rows of the table, the header being line 1.
+export function importChecklist(table: SourceTable, mapping: string[], dataset: DatasetInfo): Promise<ChecklistResult> {
+  const columns = [...new Set(mapping.filter(Boolean).flatMap(column => (column === NAME_TARGET ? NAME_COLUMNS : [column])))];
+  const csv = Papa.unparse({
+    fields: columns,
+    data: mapRows(table, mapping).map(record => columns.map(column => record[column] ?? ''))
+  }, { newline: '\n' });
+  return parseChecklist(csv, dataset);
+}
+
+// The lowest rank shared by every row, as the dataset's taxon scope; failing
+// that, the phyla listed together
+export function inferScope(rows: SpeciesData[]): DatasetInfo['taxon'] {
+  const names = (rank: string) => new Set(rows.map(row => String(row[rank] ?? '').trim()));
+  for (const rank of ["Genere", "Sottofamiglia", "Famiglia", "Ordine", "Classe", "Phylum"]) {
+    const found = names(rank);
+    if (found.size === 1 && !found.has('')) return { rank, name: [...found][0] };
+  }
+  return { rank: "Phylum", name: [...names("Phylum")].filter(Boolean).sort().join(', ') || 'unknown' };
+}
+
+// Dataset ids of imports start with "import-" and never clash with the manifest
+export function importedDatasetId(label: string, existing: DatasetInfo[]): string {
+  const base = `import-${normalizeHeader(label).replace(/\s+/g, '-').replace(/\?/g, '') || 'checklist'}`;
+  let id = base;
+  for (let i = 2; existing.some(d => d.id === id); i++) id = `${base}-${i}`;
+  return id;
+}
@@ -0,0 +1,32 @@
+import { SpeciesData, MACRO_REGIONS, NEIGHBOURING_TERRITORIES } from '../types';
+
+// Macro-regions (N, S, Si, Sa) and the regional records supporting them. Older
+// literature often gives only the macro-region, which leaves the map without
+// regional resolution for that taxon.
+
+export type MacroRegion = keyof typeof MACRO_REGIONS;
+
+export const MACRO_REGION_CODES = Object.keys(MACRO_REGIONS) as MacroRegion[];
+
+export const isMacroRegion = (code: string): code is MacroRegion => code in MACRO_REGIONS;
+
+// Italian regions summarised by a macro-region; empty for Sicilia and Sardegna,
+// whose macro-region is the region itself
+export const macroMembers = (macro: MacroRegion) =>
+  MACRO_REGIONS[macro].filter(region => region !== macro && !NEIGHBOURING_TERRITORIES.includes(region));
+
+export const macroOf = (region: string) =>
+  MACRO_REGION_CODES.find(macro => macro !== region && MACRO_REGIONS[macro].includes(region));
+
+const isRecorded = (value: unknown) => value === 'y' || value === '?';
+
+// Recorded in the macro-region but in none of its member regions
+export function lacksRegionalRecord(row: SpeciesData, macro: MacroRegion): boolean {
+  const members = macroMembers(macro);
+  return members.length > 0 && isRecorded(row[macro]) && !members.some(region => isRecorded(row[region]));
+}
+
+// Query selecting the taxa counted by lacksRegionalRecord, for the query bar
+export function macroOnlyQuery(macro: MacroRegion): string {
+  return [`${macro}!=""`, ...macroMembers(macro).map(region => `${region}=""`)].join(' AND ');
+}
@@ -0,0 +1,204 @@
+import * as d3 from 'd3';
+
+export type MapLegend =
+  | { type: 'categorical'; title: string; items: { label: string; color: string }[] }
+  | { type: 'gradient'; title: string; from: string; to: string; min: number; max: number; unit?: string };
+
+export interface MapFigure {
+  geoData: GeoJSON.FeatureCollection;
+  // Marine sectors drawn beneath the land; the projection is fitted to the land only
+  seaData?: GeoJSON.FeatureCollection;
+  getColor: (code: string) => string;
+  legend: MapLegend;
+  title: string;
+  // Species names are set in italics
+  italicTitle: boolean;
+  caption: string;
+  // Codes drawn as dots because their outline is too small to see
+  microStates: string[];
+}
+
+const WIDTH = 1200;
+const HEIGHT = 1000;
+const FONT = 'Inter, Helvetica, Arial, sans-serif';
+
+// Builds a self-contained SVG document: map, legend, title and caption in one file
+export function buildMapSvg(figure: MapFigure): string {
+  const svg = d3.create('svg')
+    .attr('xmlns', 'http://www.w3.org/2000/svg')
+    .attr('width', WIDTH)
+    .attr('height', HEIGHT)
+    .attr('viewBox', `0 0 ${WIDTH} ${HEIGHT}`)
+    .attr('font-family', FONT);
+
+  svg.append('rect').attr('width', WIDTH).attr('height', HEIGHT).attr('fill', '#ffffff');
+
+  svg.append('text')
+    .attr('x', 40).attr('y', 56)
+    .attr('font-size', 28).attr('font-weight', 600).attr('fill', '#18181b')
+    .attr('font-style', figure.italicTitle ? 'italic' : 'normal')
+    .text(figure.title);
+
+  const projection = d3.geoMercator()
+    .fitExtent([[260, 90], [WIDTH - 40, HEIGHT - 70]], figure.geoData);
+  const path = d3.geoPath().projection(projection);
+
+  // Sectors reach past the land; keep them off the legend and caption
+  svg.append('clipPath').attr('id', 'map-area')
+    .append('rect')
+    .attr('x', 260).attr('y', 90).attr('width', WIDTH - 300).attr('height', HEIGHT - 160);
+
+  svg.append('g')
+    .attr('clip-path', 'url(#map-area)')
+    .selectAll('path')
+    .data(figure.seaData?.features ?? [])
+    .join('path')
+    .attr('d', (d: any) => path(d))
+    .attr('fill', (d: any) => figure.getColor(d.properties.code))
+    .attr('stroke', '#ffffff')
+    .attr('stroke-width', 1);
+
+  svg.append('g')
+    .selectAll('path')
+    .data(figure.geoData.features)
+    .join('path')
+    .attr('d', (d: any) => path(d))
+    .attr('fill', (d: any) => figure.getColor(d.properties.code))
+    .attr('stroke', '#ffffff')
+    .attr('stroke-width', 1);
+
+  svg.append('g')
+    .selectAll('circle')
+    .data(figure.geoData.features.filter((f: any) => figure.microStates.includes(f.properties.code)))
+    .join('circle')
+    .attr('cx', (d: any) => projection(d3.geoCentroid(d))![0])
+    .attr('cy', (d: any) => projection(d3.geoCentroid(d))![1])
+    .attr('r', 4)
+    .attr('fill', (d: any) => figure.getColor(d.properties.code))
+    .attr('stroke', '#52525b')
+    .attr('stroke-width', 0.6);
+
+  drawLegend(svg.append('g').attr('transform', 'translate(40, 120)'), figure.legend);
+
+  svg.append('text')
+    .attr('x', 40).attr('y', HEIGHT - 30)
+    .attr('font-size', 13).attr('fill', '#71717a')
+    .text(figure.caption);
+
+  return new XMLSerializer().serializeToString(svg.node()!);
+}
+
+function drawLegend(g: d3.Selection<SVGGElement, undefined, null, undefined>, legend: MapLegend) {
+  g.append('text')
+    .attr('font-size', 14).attr('font-weight', 600).attr('fill', '#18181b')
+    .text(legend.title);
+
+  if (legend.type === 'categorical') {
+    legend.items.forEach((item, i) => {
+      const row = g.append('g').attr('transform', `translate(0, ${24 + i * 28})`);
+      row.append('rect')
+        .attr('width', 18).attr('height', 18).attr('rx', 4)
+        .attr('fill', item.color).attr('stroke', '#d4d4d8');
+      row.append('text')
+        .attr('x', 28).attr('y', 14)
+        .attr('font-size', 13).attr('fill', '#3f3f46')
+        .text(item.label);
+    });
+  } else {
+    const id = 'legend-gradient';
+    const gradient = g.append('defs').append('linearGradient')
+      .attr('id', id).attr('x1', 0).attr('x2', 0).attr('y1', 0).attr('y2', 1);
+    gradient.append('stop').attr('offset', '0%').attr('stop-color', legend.to);
+    gradient.append('stop').attr('offset', '100%').attr('stop-color', legend.from);
+
+    g.append('rect')
+      .attr('y', 24).attr('width', 18).attr('height', 240).attr('rx', 4)
+      .attr('fill', `url(#${id})`);
+    g.append('text')
+      .attr('x', 28).attr('y', 36)
+      .attr('font-size', 13).attr('fill', '#3f3f46')
+      .text(`${legend.max}${legend.unit ?? ''} (max)`);
+    g.append('text')
+      .attr('x', 28).attr('y', 262)
+      .attr('font-size', 13).attr('fill', '#3f3f46')
+      .text(`${legend.min}${legend.unit ?? ''} (min)`);
+  }
+}
+
+// Safari on iOS refuses canvases over 16.7 megapixels, below 600 dpi for this figure
+const SAFE_CANVAS_PIXELS = 4096 * 4096;
+
+function loadSvgImage(svgText: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not render the map image'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgText)}`;
+  });
+}
+
+// Null when the browser cannot make a canvas this large
+function drawPng(image: HTMLImageElement, dpi: number): Promise<Blob | null> {
+  const scale = dpi / 96;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(WIDTH * scale);
+  canvas.height = Math.round(HEIGHT * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.resolve(null);
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, WIDTH, HEIGHT);
+  return new Promise(resolve => canvas.toBlob(blob => {
+    // Frees the canvas memory right away, which Safari counts against its limit
+    canvas.width = canvas.height = 0;
+    resolve(blob);
+  }, 'image/png'));
+}
+
+export interface PngFigure {
+  blob: Blob;
+  // Lower than asked for when the browser refused a canvas that large
+  dpi: number;
+}
+
+// Rasterizes the SVG; at 96 dpi one SVG unit is one pixel. A resolution the
+// browser cannot handle falls back to the largest one every browser allows.
+export async function svgToPng(svgText: string, dpi: number): Promise<PngFigure> {
+  const image = await loadSvgImage(svgText);
+  const safeDpi = Math.floor(96 * Math.sqrt(SAFE_CANVAS_PIXELS / (WIDTH * HEIGHT)));
+  for (const attempt of dpi > safeDpi ? [dpi, safeDpi] : [dpi]) {
+    const png = await drawPng(image, attempt);
+    if (png) return { blob: await setPngDpi(png, attempt), dpi: attempt };
+  }
+  throw new Error(`This browser could not make a ${dpi} dpi image`);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Canvas PNGs carry no resolution; add a pHYs chunk so the DPI travels with the file
+async function setPngDpi(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // The IHDR chunk always comes first: 8-byte signature + 25-byte chunk
+  const headerEnd = 33;
+  return new Blob([bytes.subarray(0, headerEnd), chunk, bytes.subarray(headerEnd)], { type: 'image/png' });
+}
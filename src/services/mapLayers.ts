@@ -0,0 +1,285 @@
+import * as d3 from 'd3';
+import { SpeciesData, REGIONS_MAP } from '../types';
+import { MapLegend } from './mapExport';
+import { normalizeChorotype, chorotypeOf, chorotypeColor, chorotypeName, chorotypeShortLabel, compareChorotypes } from './chorotypes';
+import { SpeciesStatus, STATUS_LABELS, regionStatusCounts } from './speciesStatus';
+import { MACRO_REGION_CODES, isMacroRegion, lacksRegionalRecord } from './macroRegions';
+
+// What the map colours each territory by. A single species is always shown by
+// its own distribution status, whatever the layer.
+const REGION_CODES = Object.keys(REGIONS_MAP);
+
+export type MapLayer =
+  | { kind: 'richness' }
+  | { kind: 'dominantChorotype' }
+  | { kind: 'chorotypeShare'; chorotype: string }
+  | { kind: SpeciesStatus; measure: StatusMeasure }
+  | { kind: 'macroOnly' };
+
+// Endemic or alien taxa per territory, as a number or as a share of the species present
+export type StatusMeasure = 'count' | 'percentage';
+
+export const DEFAULT_MAP_LAYER: MapLayer = { kind: 'richness' };
+
+// Individual regions, or the macro-regions N, S, Si and Sa dissolved from them
+export type MapResolution = 'region' | 'macro';
+
+// The macro-only layer is about macro-regions, whatever the resolution chosen
+export const effectiveResolution = (layer: MapLayer, resolution: MapResolution): MapResolution =>
+  layer.kind === 'macroOnly' ? 'macro' : resolution;
+
+export const resolutionCodes = (resolution: MapResolution): string[] =>
+  resolution === 'macro' ? MACRO_REGION_CODES : REGION_CODES;
+
+// Link form: "dominant", "share:1.10", "endemic:percentage" or "macro-only"; null for the default layer
+export function mapLayerKey(layer: MapLayer): string | null {
+  switch (layer.kind) {
+    case 'dominantChorotype':
+      return 'dominant';
+    case 'chorotypeShare':
+      return `share:${layer.chorotype}`;
+    case 'endemic':
+    case 'alien':
+      return `${layer.kind}:${layer.measure}`;
+    case 'macroOnly':
+      return 'macro-only';
+    default:
+      return null;
+  }
+}
+
+export function parseMapLayer(value: string | null): MapLayer {
+  if (value === 'dominant') return { kind: 'dominantChorotype' };
+  if (value === 'macro-only') return { kind: 'macroOnly' };
+  const share = value?.match(/^share:(.+)$/);
+  if (share) return { kind: 'chorotypeShare', chorotype: normalizeChorotype(share[1]) };
+  const status = value?.match(/^(endemic|alien):(count|percentage)$/);
+  if (status) return { kind: status[1] as SpeciesStatus, measure: status[2] as StatusMeasure };
+  return DEFAULT_MAP_LAYER;
+}
+
+export interface MapColoring {
+  getColor: (code: string) => string;
+  legend: MapLegend;
+  // Figure shown for the hovered territory, with its label
+  valueLabel: string;
+  describe: (code: string) => string;
+}
+
+export const EMPTY_COLOR = '#f1f5f9';
+const LOW_COLOR = '#1065AB';
+const HIGH_COLOR = '#B31529';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function speciesColoring(row: SpeciesData): MapColoring {
+  const colors: Record<string, string> = { y: '#86efac', '?': '#fef08a' };
+  const labels: Record<string, string> = { y: 'Present', '?': 'Doubtful' };
+  return {
+    getColor: code => colors[row[code]] ?? EMPTY_COLOR,
+    legend: {
+      type: 'categorical',
+      title: 'Distribution',
+      items: [
+        { label: 'Present', color: colors.y },
+        { label: 'Doubtful', color: colors['?'] },
+        { label: 'Absent', color: EMPTY_COLOR }
+      ]
+    },
+    valueLabel: 'Status',
+    describe: code => labels[row[code]] ?? 'Absent'
+  };
+}
+
+function richnessColoring(data: SpeciesData[], codes: string[]): MapColoring {
+  const counts: Record<string, number> = {};
+  codes.forEach(code => {
+    counts[code] = data.filter(row => row[code] === 'y').length;
+  });
+  const values = Object.values(counts);
+  const max = Math.max(...values, 0);
+  const min = Math.min(...values);
+  const scale = d3.interpolateRgb(LOW_COLOR, HIGH_COLOR);
+
+  return {
+    getColor: code => {
+      const count = counts[code] || 0;
+      if (count === 0) return EMPTY_COLOR;
+      return scale(max === min ? 1 : (count - min) / (max - min));
+    },
+    legend: { type: 'gradient', title: 'Species per region', from: LOW_COLOR, to: HIGH_COLOR, min, max },
+    valueLabel: 'Species',
+    describe: code => String(counts[code] || 0)
+  };
+}
+
+// Chorotypes of the species present in each territory; rows without one are left out
+function regionChorotypes(data: SpeciesData[], codes: string[]): Record<string, Map<string, number>> {
+  const byRegion: Record<string, Map<string, number>> = {};
+  codes.forEach(code => { byRegion[code] = new Map(); });
+  data.forEach(row => {
+    const chorotype = chorotypeOf(row);
+    if (!chorotype) return;
+    codes.forEach(code => {
+      if (row[code] !== 'y') return;
+      const counts = byRegion[code];
+      counts.set(chorotype, (counts.get(chorotype) ?? 0) + 1);
+    });
+  });
+  return byRegion;
+}
+
+const total = (counts: Map<string, number>) => [...counts.values()].reduce((sum, n) => sum + n, 0);
+
+function dominantColoring(data: SpeciesData[], codes: string[]): MapColoring {
+  const byRegion = regionChorotypes(data, codes);
+  // Most species; ties go to the chorotype listed first
+  const dominant: Record<string, string> = {};
+  codes.forEach(code => {
+    const best = [...byRegion[code].entries()]
+      .sort(([a, n], [b, m]) => m - n || compareChorotypes(a, b))[0];
+    if (best) dominant[code] = best[0];
+  });
+  const shown = [...new Set(Object.values(dominant))].sort(compareChorotypes);
+
+  return {
+    getColor: code => (dominant[code] ? chorotypeColor(dominant[code]) : EMPTY_COLOR),
+    legend: {
+      type: 'categorical',
+      title: 'Dominant chorotype',
+      items: [
+        ...shown.map(chorotype => ({ label: chorotypeShortLabel(chorotype), color: chorotypeColor(chorotype) })),
+        { label: 'No records', color: EMPTY_COLOR }
+      ]
+    },
+    valueLabel: 'Dominant chorotype',
+    describe: code => {
+      const chorotype = dominant[code];
+      if (!chorotype) return 'No records';
+      return `${chorotypeName(chorotype)} (${percent(byRegion[code].get(chorotype)! / total(byRegion[code]))})`;
+    }
+  };
+}
+
+function shareColoring(data: SpeciesData[], codes: string[], chorotype: string): MapColoring {
+  const byRegion = regionChorotypes(data, codes);
+  const shares: Record<string, number> = {};
+  codes.forEach(code => {
+    const assigned = total(byRegion[code]);
+    if (assigned > 0) shares[code] = (byRegion[code].get(chorotype) ?? 0) / assigned;
+  });
+  const max = Math.max(...Object.values(shares), 0);
+  const to = chorotypeColor(chorotype);
+  const scale = d3.interpolateRgb(EMPTY_COLOR, to);
+
+  return {
+    getColor: code => (code in shares && max > 0 ? scale(shares[code] / max) : EMPTY_COLOR),
+    legend: {
+      type: 'gradient',
+      title: `${chorotypeName(chorotype)} species`,
+      from: EMPTY_COLOR,
+      to,
+      min: 0,
+      max: Math.round(max * 100),
+      unit: '%'
+    },
+    valueLabel: chorotypeName(chorotype),
+    describe: code => (code in shares ? percent(shares[code]) : 'No records')
+  };
+}
+
+const STATUS_COLORS: Record<SpeciesStatus, string> = {
+  endemic: HIGH_COLOR,
+  alien: '#d97706'
+};
+
+function statusColoring(data: SpeciesData[], codes: string[], status: SpeciesStatus, measure: StatusMeasure): MapColoring {
+  const counts = Object.fromEntries(regionStatusCounts(data, codes).map(entry => [entry.code, entry]));
+  const value = (code: string) => {
+    const entry = counts[code];
+    if (!entry || entry.present === 0) return null;
+    return measure === 'count' ? entry[status] : entry[status] / entry.present;
+  };
+  const values = Object.keys(counts).map(value).filter((v): v is number => v !== null);
+  const max = Math.max(...values, 0);
+  const to = STATUS_COLORS[status];
+  const scale = d3.interpolateRgb(EMPTY_COLOR, to);
+  const label = `${STATUS_LABELS[status]} taxa`;
+
+  return {
+    getColor: code => {
+      const v = value(code);
+      return v === null || max === 0 ? EMPTY_COLOR : scale(v / max);
+    },
+    legend: {
+      type: 'gradient',
+      title: measure === 'count' ? label : `${label}, % of species`,
+      from: EMPTY_COLOR,
+      to,
+      min: 0,
+      max: measure === 'count' ? max : Math.round(max * 100),
+      unit: measure === 'count' ? undefined : '%'
+    },
+    valueLabel: label,
+    describe: code => {
+      const entry = counts[code];
+      if (!entry || entry.present === 0) return 'No records';
+      return `${entry[status]} (${percent(entry[status] / entry.present)})`;
+    }
+  };
+}
+
+const MACRO_ONLY_COLOR = '#7c3aed';
+
+function macroOnlyColoring(data: SpeciesData[]): MapColoring {
+  const counts: Record<string, number> = {};
+  MACRO_REGION_CODES.forEach(macro => {
+    counts[macro] = data.filter(row => lacksRegionalRecord(row, macro)).length;
+  });
+  const max = Math.max(...Object.values(counts), 0);
+  const scale = d3.interpolateRgb(EMPTY_COLOR, MACRO_ONLY_COLOR);
+
+  return {
+    getColor: code => (counts[code] ? scale(counts[code] / max) : EMPTY_COLOR),
+    legend: {
+      type: 'gradient',
+      title: 'Taxa without a regional record',
+      from: EMPTY_COLOR,
+      to: MACRO_ONLY_COLOR,
+      min: 0,
+      max
+    },
+    valueLabel: 'Without a regional record',
+    describe: code => (isMacroRegion(code) ? String(counts[code]) : 'Not a macro-region')
+  };
+}
+
+// Colours the territories listed in `codes`; anything else on the map is left blank
+export function mapColoring(data: SpeciesData[], layer: MapLayer, codes: string[] = REGION_CODES): MapColoring {
+  return limitColoring(selectColoring(data, layer, codes), codes);
+}
+
+export function limitColoring(coloring: MapColoring, codes: string[]): MapColoring {
+  return {
+    ...coloring,
+    getColor: code => (codes.includes(code) ? coloring.getColor(code) : EMPTY_COLOR),
+    describe: code => (codes.includes(code) ? coloring.describe(code) : 'Not mapped at this resolution')
+  };
+}
+
+function selectColoring(data: SpeciesData[], layer: MapLayer, codes: string[]): MapColoring {
+  if (data.length === 1) return speciesColoring(data[0]);
+  switch (layer.kind) {
+    case 'dominantChorotype':
+      return dominantColoring(data, codes);
+    case 'chorotypeShare':
+      return shareColoring(data, codes, layer.chorotype);
+    case 'endemic':
+    case 'alien':
+      return statusColoring(data, codes, layer.kind, layer.measure);
+    case 'macroOnly':
+      return macroOnlyColoring(data);
+    default:
+      return richnessColoring(data, codes);
+  }
+}
@@ -0,0 +1,3 @@
+// Escapes text for HTML and XML content and attribute values
+export const escapeMarkup = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
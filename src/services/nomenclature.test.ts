@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { parseName, parseNameString, formatName, formatNameHtml, nameParts, normalizeAuthority, isParenthesized, isNominotypical } from './nomenclature';
+
+const row = (columns: Record<string, string>) => ({
+  Genere: 'Nacerdes',
+  Sottogenere: '',
+  Specie: '',
+  Sottospecie: '',
+  "Autore e anno specie": '',
+  "Autore e anno sottospecie": '',
+  ...columns
+});
+
+describe('parseName', () => {
+  it('reads the rank columns, trimming and collapsing spaces', () => {
+    const name = parseName(row({ Genere: ' Oedemera ', Sottogenere: 'Oedemera', Specie: 'flavipes  ', "Autore e anno specie": 'Fabricius, 1792' }));
+    expect(name).toEqual({
+      genus: 'Oedemera',
+      subgenus: 'Oedemera',
+      species: 'flavipes',
+      subspecies: '',
+      qualifier: '',
+      authority: 'Fabricius, 1792'
+    });
+  });
+
+  it('drops parentheses written around the subgenus', () => {
+    expect(parseName(row({ Sottogenere: '(Xanthochroa)', Specie: 'gracilis' })).subgenus).toBe('Xanthochroa');
+  });
+
+  it('gives a nominotypical subspecies the authority of its species', () => {
+    const name = parseName(row({ Specie: 'carniolica', Sottospecie: 'carniolica', "Autore e anno specie": '(Gistel, 1856)' }));
+    expect(isNominotypical(name)).toBe(true);
+    expect(name.authority).toBe('(Gistel, 1856)');
+  });
+
+  it('prefers the subspecies authority when one is given', () => {
+    const name = parseName(row({
+      Specie: 'carniolica',
+      Sottospecie: 'carniolica',
+      "Autore e anno specie": '(Gistel, 1856)',
+      "Autore e anno sottospecie": 'Gistel, 1856'
+    }));
+    expect(name.authority).toBe('Gistel, 1856');
+  });
+
+  it('leaves other subspecies without an authority when theirs is missing', () => {
+    const name = parseName(row({ Specie: 'carniolica', Sottospecie: 'ragusae', "Autore e anno specie": '(Gistel, 1856)' }));
+    expect(isNominotypical(name)).toBe(false);
+    expect(name.authority).toBe('');
+  });
+
+  it('reads the subspecies in the Fauna Europaea "subsp." form', () => {
+    expect(parseName(row({ Specie: 'seladonius', Sottospecie: 'subsp. azureus' })).subspecies).toBe('azureus');
+    expect(parseName(row({ Specie: 'seladonius', Sottospecie: 'SSP azureus' })).subspecies).toBe('azureus');
+  });
+
+  it('keeps parenthesized authorities as written, normalizing the comma', () => {
+    const name = parseName(row({ Specie: 'gracilis', "Autore e anno specie": '(Schmidt,1846)' }));
+    expect(name.authority).toBe('(Schmidt, 1846)');
+    expect(isParenthesized(name.authority)).toBe(true);
+    expect(isParenthesized(normalizeAuthority('Schmidt, 1846'))).toBe(false);
+  });
+
+  it('reads "sp." entries as unidentified species without epithet or authority', () => {
+    const name = parseName(row({ Specie: 'sp. 2', Sottospecie: 'x', "Autore e anno specie": 'Someone, 1900' }));
+    expect(name).toMatchObject({ species: '', subspecies: '', qualifier: 'sp. 2', authority: '' });
+    expect(parseName(row({ Specie: 'SPP' })).qualifier).toBe('spp.');
+  });
+
+  it('reads "cf." and "aff." as qualifiers of the epithet', () => {
+    expect(parseName(row({ Specie: 'cf. carniolica', "Autore e anno specie": 'Gistel, 1856' }))).toMatchObject({
+      species: 'carniolica',
+      qualifier: 'cf.',
+      authority: 'Gistel, 1856'
+    });
+    expect(parseName(row({ Specie: 'aff carniolica' }))).toMatchObject({ species: 'carniolica', qualifier: 'aff.' });
+  });
+});
+
+describe('parseNameString', () => {
+  it('splits a full name into ranks and authority', () => {
+    expect(parseNameString('Nacerdes (Xanthochroa) carniolica ragusae (Reitter,1885)')).toEqual({
+      genus: 'Nacerdes',
+      subgenus: 'Xanthochroa',
+      species: 'carniolica',
+      subspecies: 'ragusae',
+      qualifier: '',
+      authority: '(Reitter, 1885)'
+    });
+  });
+
+  it('reads the Fauna Europaea "subsp." form', () => {
+    expect(parseNameString('Anogcodes seladonius subsp. azureus')).toMatchObject({ species: 'seladonius', subspecies: 'azureus' });
+  });
+
+  it('reads qualifiers of open nomenclature', () => {
+    expect(parseNameString('Nacerdes sp. 2')).toMatchObject({ species: '', qualifier: 'sp. 2', authority: '' });
+    expect(parseNameString('Nacerdes cf. carniolica Gistel, 1856')).toMatchObject({
+      species: 'carniolica',
+      qualifier: 'cf.',
+      authority: 'Gistel, 1856'
+    });
+  });
+
+  it('keeps lowercase particles with the authority', () => {
+    expect(parseNameString('Oedemera lurida de Geer, 1775')).toMatchObject({ species: 'lurida', subspecies: '', authority: 'de Geer, 1775' });
+  });
+
+  it('reads back what formatName writes', () => {
+    const name = parseName(row({ Sottogenere: 'Xanthochroa', Specie: 'carniolica', Sottospecie: 'carniolica', "Autore e anno specie": '(Gistel, 1856)' }));
+    expect(parseNameString(formatName(name, 'full'))).toEqual(name);
+  });
+});
+
+describe('formatName', () => {
+  const subspecies = parseName(row({
+    Sottogenere: 'Xanthochroa',
+    Specie: 'carniolica',
+    Sottospecie: 'carniolica',
+    "Autore e anno specie": '(Gistel, 1856)'
+  }));
+
+  it('writes the short, full and Fauna Europaea forms', () => {
+    expect(formatName(subspecies, 'short')).toBe('Nacerdes (Xanthochroa) carniolica carniolica');
+    expect(formatName(subspecies, 'full')).toBe('Nacerdes (Xanthochroa) carniolica carniolica (Gistel, 1856)');
+    expect(formatName(subspecies, 'faunaEuropaea')).toBe('Nacerdes (Xanthochroa) carniolica subsp. carniolica');
+  });
+
+  it('adds "subsp." only between species and subspecies', () => {
+    const species = parseName(row({ Specie: 'carniolica' }));
+    expect(formatName(species, 'faunaEuropaea')).toBe('Nacerdes carniolica');
+  });
+
+  it('places qualifiers of open nomenclature before or instead of the epithet', () => {
+    expect(formatName(parseName(row({ Specie: 'sp. 2' })), 'full')).toBe('Nacerdes sp. 2');
+    expect(formatName(parseName(row({ Specie: 'cf. carniolica', "Autore e anno specie": 'Gistel, 1856' })), 'full'))
+      .toBe('Nacerdes cf. carniolica Gistel, 1856');
+    expect(formatName(parseName(row({ Specie: 'aff. carniolica', Sottospecie: 'ragusae' })), 'faunaEuropaea'))
+      .toBe('Nacerdes aff. carniolica subsp. ragusae');
+  });
+
+  it('reads back a name written in the Fauna Europaea form', () => {
+    const name = parseName(row({ Genere: 'Anogcodes', Specie: 'seladonius', Sottospecie: 'subsp. azureus' }));
+    expect(formatName(name, 'short')).toBe('Anogcodes seladonius azureus');
+    expect(formatName(name, 'faunaEuropaea')).toBe('Anogcodes seladonius subsp. azureus');
+  });
+});
+
+describe('nameParts', () => {
+  it('italicizes the names and leaves qualifiers and authorities in roman', () => {
+    const name = parseName(row({
+      Sottogenere: 'Xanthochroa',
+      Specie: 'cf. carniolica',
+      Sottospecie: 'ragusae',
+      "Autore e anno sottospecie": '(Reitter, 1885)'
+    }));
+    expect(nameParts(name, 'full')).toEqual([
+      { text: 'Nacerdes', italic: true },
+      { text: '(Xanthochroa)', italic: true },
+      { text: 'cf.', italic: false },
+      { text: 'carniolica', italic: true },
+      { text: 'ragusae', italic: true },
+      { text: '(Reitter, 1885)', italic: false }
+    ]);
+    expect(nameParts(name, 'faunaEuropaea').map(part => part.text)).toContain('subsp.');
+    expect(nameParts(name, 'faunaEuropaea').find(part => part.text === 'subsp.')?.italic).toBe(false);
+  });
+
+  it('returns the genus alone for a row without species', () => {
+    expect(nameParts(parseName(row({})), 'full')).toEqual([{ text: 'Nacerdes', italic: true }]);
+  });
+});
+
+describe('formatNameHtml', () => {
+  it('wraps italic parts and escapes the text', () => {
+    const name = parseName(row({ Specie: 'carniolica', "Autore e anno specie": 'Müller & Schmidt, 1846' }));
+    expect(formatNameHtml(name, 'full')).toBe('<i>Nacerdes</i> <i>carniolica</i> Müller &amp; Schmidt, 1846');
+  });
+});
@@ -0,0 +1,142 @@
+import { escapeMarkup } from './markup';
+
+// Scientific names following ICZN conventions: genus, subgenus, species and
+// subspecies in italics, the subgenus in parentheses, qualifiers and authorities
+// in roman. Names are parsed from the rank columns of a checklist row.
+
+export interface ScientificName {
+  genus: string;
+  subgenus: string;
+  // Empty for an unidentified species ("Nacerdes sp.")
+  species: string;
+  subspecies: string;
+  // Open nomenclature, in roman: "cf." or "aff." before the epithet, or "sp." / "sp. 2" in its place
+  qualifier: string;
+  // Authority of the lowest rank named, with its parentheses if any
+  authority: string;
+}
+
+// short: "Nacerdes (Xanthochroa) carniolica carniolica"
+// full: the short form followed by the authority
+// faunaEuropaea: "Nacerdes (Xanthochroa) carniolica subsp. carniolica", as in Fauna Europaea
+export type NameForm = 'short' | 'full' | 'faunaEuropaea';
+
+export interface NamePart {
+  text: string;
+  italic: boolean;
+}
+
+const clean = (value: unknown) => String(value ?? '').trim().replace(/\s+/g, ' ');
+
+// "Schmidt,1846" → "Schmidt, 1846"; parentheses are kept as written
+export function normalizeAuthority(value: unknown): string {
+  return clean(value).replace(/\s*,\s*/g, ', ');
+}
+
+// Parenthesized authority: the species was described in another genus
+export const isParenthesized = (authority: string) => /^\(.*\)$/.test(authority);
+
+// The subspecies repeating the species epithet
+export const isNominotypical = (name: ScientificName) =>
+  name.subspecies !== '' && name.subspecies === name.species;
+
+export function parseName(row: Record<string, any>): ScientificName {
+  const name: ScientificName = {
+    genus: clean(row.Genere),
+    subgenus: clean(row.Sottogenere).replace(/^\((.*)\)$/, '$1'),
+    species: clean(row.Specie),
+    subspecies: clean(row.Sottospecie).replace(/^(ssp|subsp)\.?\s+/i, ''),
+    qualifier: '',
+    authority: ''
+  };
+
+  const unidentified = name.species.match(/^(sp|spp)\.?(?:\s+(.+))?$/i);
+  const compared = name.species.match(/^(cf|aff)\.?\s+(.+)$/i);
+  if (unidentified) {
+    name.qualifier = [`${unidentified[1].toLowerCase()}.`, unidentified[2]].filter(Boolean).join(' ');
+    name.species = '';
+    name.subspecies = '';
+  } else if (compared) {
+    name.qualifier = `${compared[1].toLowerCase()}.`;
+    name.species = compared[2];
+  }
+
+  const speciesAuthority = normalizeAuthority(row["Autore e anno specie"]);
+  if (name.subspecies) {
+    // A nominotypical subspecies shares the author and date of its species (ICZN Art. 47.1)
+    name.authority = normalizeAuthority(row["Autore e anno sottospecie"])
+      || (isNominotypical(name) ? speciesAuthority : '');
+  } else if (name.species) {
+    name.authority = speciesAuthority;
+  }
+  return name;
+}
+
+// Lowercase words that start an authority rather than being an epithet ("de Geer, 1775")
+const AUTHOR_PARTICLES = ['d', 'da', 'de', 'del', 'della', 'der', 'des', 'di', 'du', 'la', 'le', 'van', 'von', 'zu'];
+
+// A name written out in one piece, in any of the forms above, as in a
+// "scientific name" column: "Oedemera (Oedemera) flavipes (Fabricius, 1792)",
+// "Anogcodes seladonius subsp. azureus", "Nacerdes sp. 2"
+export function parseNameString(value: string): ScientificName {
+  const tokens = clean(value).split(' ').filter(Boolean);
+  const name: ScientificName = { genus: '', subgenus: '', species: '', subspecies: '', qualifier: '', authority: '' };
+  let i = 0;
+  const isEpithet = (token: string | undefined) =>
+    !!token && /^[a-z][a-z-]*$/.test(token) && !(AUTHOR_PARTICLES.includes(token) && /^[A-Z]/.test(tokens[i + 1] ?? ''));
+
+  name.genus = tokens[i++] ?? '';
+  const subgenus = tokens[i]?.match(/^\(([A-Z][a-z-]*)\)$/);
+  if (subgenus) {
+    name.subgenus = subgenus[1];
+    i++;
+  }
+
+  const unidentified = tokens[i]?.match(/^(sp|spp)\.?$/i);
+  if (unidentified) {
+    i++;
+    // "sp. 2", "sp. A"; unidentified species carry no authority
+    const label = tokens[i] && /^(\d+|[A-Z])$/.test(tokens[i]) ? tokens[i] : '';
+    name.qualifier = [`${unidentified[1].toLowerCase()}.`, label].filter(Boolean).join(' ');
+    return name;
+  }
+  const compared = tokens[i]?.match(/^(cf|aff)\.?$/i);
+  if (compared) {
+    name.qualifier = `${compared[1].toLowerCase()}.`;
+    i++;
+  }
+
+  if (isEpithet(tokens[i])) {
+    name.species = tokens[i++];
+    if (/^(subsp|ssp)\.?$/i.test(tokens[i] ?? '')) i++;
+    if (isEpithet(tokens[i])) name.subspecies = tokens[i++];
+  }
+  name.authority = normalizeAuthority(tokens.slice(i).join(' '));
+  return name;
+}
+
+export function nameParts(name: ScientificName, form: NameForm): NamePart[] {
+  const parts: NamePart[] = [];
+  const add = (text: string, italic: boolean) => { if (text) parts.push({ text, italic }); };
+
+  add(name.genus, true);
+  if (name.subgenus) add(`(${name.subgenus})`, true);
+  add(name.qualifier, false);
+  if (name.species) {
+    add(name.species, true);
+    if (name.subspecies && form === 'faunaEuropaea') add('subsp.', false);
+    add(name.subspecies, true);
+  }
+  if (form === 'full') add(name.authority, false);
+  return parts;
+}
+
+export function formatName(name: ScientificName, form: NameForm): string {
+  return nameParts(name, form).map(part => part.text).join(' ');
+}
+
+export function formatNameHtml(name: ScientificName, form: NameForm): string {
+  return nameParts(name, form)
+    .map(part => (part.italic ? `<i>${escapeMarkup(part.text)}</i>` : escapeMarkup(part.text)))
+    .join(' ');
+}
@@ -0,0 +1,103 @@
+import { DatasetInfo } from '../types';
+import { dataSource } from './dataSource';
+import { MANIFEST_URL } from './dataService';
+
+// Offline use: the service worker built from src/serviceWorker.js keeps a copy
+// of the whole release, and this module registers it, tells when the copy was
+// made and looks for newer checklists.
+
+// Script URL, set at build time; empty on the dev server
+const SERVICE_WORKER = process.env.SERVICE_WORKER || '';
+
+let registration: ServiceWorkerRegistration | null = null;
+const updateListeners = new Set<() => void>();
+
+// A new release has installed next to the running one
+export const updateReady = () => Boolean(registration?.waiting && navigator.serviceWorker.controller);
+
+function watchInstalling(worker: ServiceWorker | null) {
+  worker?.addEventListener('statechange', () => {
+    if (updateReady()) updateListeners.forEach(listener => listener());
+  });
+}
+
+export function registerServiceWorker() {
+  if (!SERVICE_WORKER || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER)
+      .then(reg => {
+        registration = reg;
+        if (updateReady()) updateListeners.forEach(listener => listener());
+        watchInstalling(reg.installing);
+        reg.addEventListener('updatefound', () => watchInstalling(reg.installing));
+      })
+      // Without a worker the viewer simply needs the network
+      .catch(() => {});
+  });
+}
+
+// Calls back when a new release is ready to take over; returns the unsubscribe
+export function onUpdateReady(listener: () => void): () => void {
+  updateListeners.add(listener);
+  return () => { updateListeners.delete(listener); };
+}
+
+export interface OfflineCopy {
+  // When the release was published, and when this device saved it
+  published: Date | null;
+  saved: Date;
+}
+
+const headerDate = (response: Response, name: string) => {
+  const value = response.headers.get(name);
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+// The saved copy of the dataset manifest, null when nothing is kept offline
+export async function offlineCopy(): Promise<OfflineCopy | null> {
+  if (!SERVICE_WORKER || !('caches' in window)) return null;
+  const response = await caches.match(MANIFEST_URL);
+  if (!response) return null;
+  return {
+    published: headerDate(response, 'Last-Modified'),
+    saved: headerDate(response, 'Date') ?? new Date()
+  };
+}
+
+export interface PublishedUpdate {
+  dataset: DatasetInfo;
+  // The version loaded now; null for a dataset that is new to the manifest
+  current: string | null;
+}
+
+// Compares the published manifest with the loaded one, and asks the browser
+// to fetch a new service worker if the site has changed
+export async function checkForUpdates(loaded: DatasetInfo[]): Promise<PublishedUpdate[]> {
+  registration?.update().catch(() => {});
+  const published = await dataSource.loadManifest(true);
+  const versions = new Map(loaded.map(dataset => [dataset.id, dataset.version]));
+  return published
+    .filter(dataset => versions.get(dataset.id) !== dataset.version)
+    .map(dataset => ({ dataset, current: versions.get(dataset.id) ?? null }));
+}
+
+// Switches to the new release and reloads; a release still downloading takes
+// over once it has installed. Without one, a reload fetches the data again.
+export async function applyUpdate() {
+  await registration?.update().catch(() => {});
+  const worker = registration?.waiting ?? registration?.installing;
+  if (!worker || !navigator.serviceWorker.controller) {
+    window.location.reload();
+    return;
+  }
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  const activate = () => worker.postMessage({ type: 'SKIP_WAITING' });
+  if (worker.state === 'installed') {
+    activate();
+  } else {
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'installed') activate();
+    });
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  SpeciesData,
+  DISTRIBUTION_COLUMNS,
+  RETAINED_COLUMNS,
+  SOURCE_ONLY_COLUMNS,
+  STATUS_VALUES
+} from '../types';
+
+// A small boolean query language over the checklist columns, e.g.
+//   Sa=y AND Cor!=y
+//   (Cal=? OR Si=?) AND NOT Famiglia=Oedemeridae
+//   "Nome Scientifico"~ischnomera
+//
+// Operators: = (equals), != (differs), ~ (contains); combined with AND, OR, NOT and
+// parentheses. Field names and values may be double-quoted; "" is the blank value.
+// Comparisons ignore case; distribution columns only accept y, ? or "".
+
+export type Operator = '=' | '!=' | '~';
+
+export type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'compare'; field: string; operator: Operator; value: string };
+
+export class QueryError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+type Token =
+  | { type: 'word' | 'string'; value: string; position: number }
+  | { type: 'op'; value: Operator; position: number }
+  | { type: '(' | ')' | 'end'; position: number };
+
+export const QUERY_FIELDS = [...RETAINED_COLUMNS, ...SOURCE_ONLY_COLUMNS];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char, position: i });
+      i++;
+    } else if (char === '!' && input[i + 1] === '=') {
+      tokens.push({ type: 'op', value: '!=', position: i });
+      i += 2;
+    } else if (char === '=' || char === '~') {
+      tokens.push({ type: 'op', value: char, position: i });
+      i++;
+    } else if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) throw new QueryError('Unterminated quoted text', i);
+      tokens.push({ type: 'string', value: input.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()=~"]/.test(input[i]) && !(input[i] === '!' && input[i + 1] === '=')) i++;
+      tokens.push({ type: 'word', value: input.slice(start, i), position: start });
+    }
+  }
+
+  tokens.push({ type: 'end', position: input.length });
+  return tokens;
+}
+
+const isKeyword = (token: Token, keyword: string) =>
+  token.type === 'word' && token.value.toUpperCase() === keyword;
+
+const describe = (token: Token) =>
+  token.type === 'end' ? 'end of query'
+    : token.type === 'word' || token.type === 'string' || token.type === 'op' ? `"${token.value}"`
+      : `"${token.type}"`;
+
+export function resolveField(name: string): string | undefined {
+  return QUERY_FIELDS.find(field => field.toLowerCase() === name.toLowerCase());
+}
+
+export function parseQuery(input: string): QueryNode | null {
+  if (!input.trim()) return null;
+
+  const tokens = tokenize(input);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const parseOr = (): QueryNode => {
+    let node = parseAnd();
+    while (isKeyword(peek(), 'OR')) {
+      next();
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): QueryNode => {
+    let node = parseNot();
+    while (isKeyword(peek(), 'AND')) {
+      next();
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): QueryNode => {
+    if (isKeyword(peek(), 'NOT')) {
+      next();
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = next();
+    if (token.type === '(') {
+      const node = parseOr();
+      const closing = next();
+      if (closing.type !== ')') {
+        throw new QueryError(`Expected ")" to close the group opened at character ${token.position + 1}, found ${describe(closing)}`, closing.position);
+      }
+      return node;
+    }
+    if (token.type !== 'word' && token.type !== 'string') {
+      throw new QueryError(`Expected a field name, found ${describe(token)}`, token.position);
+    }
+
+    const field = resolveField(token.value);
+    if (!field) {
+      const spaced = QUERY_FIELDS.find(f => f.includes(' ') && f.toLowerCase().startsWith(token.value.toLowerCase() + ' '));
+      throw new QueryError(
+        spaced
+          ? `Unknown field "${token.value}"; quote names with spaces, e.g. "${spaced}"`
+          : `Unknown field "${token.value}"`,
+        token.position
+      );
+    }
+
+    const operator = next();
+    if (operator.type !== 'op') {
+      throw new QueryError(`Expected =, != or ~ after ${field}, found ${describe(operator)}`, operator.position);
+    }
+
+    const valueToken = peek();
+    let value = '';
+    if (valueToken.type === 'string' || (valueToken.type === 'word' && !['AND', 'OR', 'NOT'].includes(valueToken.value.toUpperCase()))) {
+      value = valueToken.value;
+      next();
+    } else if (operator.value === '~') {
+      throw new QueryError(`Expected a value after ${field}~, found ${describe(valueToken)}`, valueToken.position);
+    }
+
+    if (DISTRIBUTION_COLUMNS.includes(field) && operator.value !== '~' && !STATUS_VALUES.includes(value.toLowerCase())) {
+      throw new QueryError(`${field} is a distribution column: use y, ? or "" (blank), not "${value}"`, valueToken.position);
+    }
+
+    return { type: 'compare', field, operator: operator.value, value };
+  };
+
+  const node = parseOr();
+  const rest = peek();
+  if (rest.type !== 'end') {
+    throw new QueryError(`Unexpected ${describe(rest)}; combine conditions with AND or OR`, rest.position);
+  }
+  return node;
+}
+
+export function evaluateQuery(node: QueryNode, row: SpeciesData): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateQuery(node.left, row) && evaluateQuery(node.right, row);
+    case 'or':
+      return evaluateQuery(node.left, row) || evaluateQuery(node.right, row);
+    case 'not':
+      return !evaluateQuery(node.operand, row);
+    case 'compare': {
+      const cell = String(row[node.field] ?? '').trim().toLowerCase();
+      const value = node.value.toLowerCase();
+      if (node.operator === '~') return cell.includes(value);
+      return node.operator === '=' ? cell === value : cell !== value;
+    }
+  }
+}
+
+export type QueryResult =
+  | { ok: true; predicate: ((row: SpeciesData) => boolean) | null }
+  | { ok: false; error: QueryError };
+
+// Parses a query once and returns a row predicate, or the error to show the user
+export function compileQuery(input: string): QueryResult {
+  try {
+    const node = parseQuery(input);
+    return { ok: true, predicate: node ? (row) => evaluateQuery(node, row) : null };
+  } catch (err) {
+    if (err instanceof QueryError) return { ok: false, error: err };
+    throw err;
+  }
+}
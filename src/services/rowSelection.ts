@@ -0,0 +1,43 @@
+import { SpeciesData, SortKey } from '../types';
+import { Filters, matchesFilters } from './filters';
+import { compileQuery } from './query';
+import { CladeStep, matchesClade } from './taxonomy';
+import { compareRows } from './sorting';
+
+export interface SelectionParams {
+  query: string;
+  filters: Filters;
+  clade: CladeStep[];
+  sortConfig: SortKey[];
+}
+
+// Indices into the loaded rows
+export interface RowSelection {
+  // Matching the query and column filters, in load order; the tree is built from these
+  scoped: Int32Array;
+  // ...further narrowed to the selected clade and sorted for the table
+  filtered: Int32Array;
+}
+
+// Plain computation shared by the worker and the synchronous fallback
+export function computeSelection(rows: SpeciesData[], params: SelectionParams): RowSelection {
+  const compiled = compileQuery(params.query);
+  // An invalid query is reported by the query bar and otherwise ignored
+  const predicate = compiled.ok ? compiled.predicate : null;
+
+  const scoped: number[] = [];
+  rows.forEach((row, i) => {
+    if ((!predicate || predicate(row)) && matchesFilters(row, params.filters)) scoped.push(i);
+  });
+
+  const filtered = params.clade.length === 0
+    ? [...scoped]
+    : scoped.filter(i => matchesClade(rows[i], params.clade));
+  if (params.sortConfig.length > 0) {
+    const compare = compareRows(params.sortConfig);
+    // Ties keep load order, as Array.prototype.sort is stable
+    filtered.sort((a, b) => compare(rows[a], rows[b]));
+  }
+
+  return { scoped: Int32Array.from(scoped), filtered: Int32Array.from(filtered) };
+}
@@ -0,0 +1,28 @@
+import { SpeciesData } from '../types';
+import { computeSelection, SelectionParams } from './rowSelection';
+
+// Web Worker running the filter and sort pipeline off the main thread.
+// Rows are sent once per load; each request then carries only the parameters.
+
+export type RowWorkerRequest =
+  | { type: 'rows'; rows: SpeciesData[] }
+  | { type: 'select'; id: number; params: SelectionParams };
+
+export interface RowWorkerResponse {
+  id: number;
+  scoped: Int32Array;
+  filtered: Int32Array;
+}
+
+let rows: SpeciesData[] = [];
+
+self.onmessage = (event: MessageEvent<RowWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'rows') {
+    rows = request.rows;
+    return;
+  }
+  const { scoped, filtered } = computeSelection(rows, request.params);
+  const response: RowWorkerResponse = { id: request.id, scoped, filtered };
+  self.postMessage(response, { transfer: [scoped.buffer, filtered.buffer] });
+};
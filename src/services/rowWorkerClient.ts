@@ -0,0 +1,50 @@
+import { SpeciesData } from '../types';
+import { computeSelection, RowSelection, SelectionParams } from './rowSelection';
+import type { RowWorkerRequest, RowWorkerResponse } from './rowWorker';
+
+// One worker for the lifetime of the page, created on first use. Where workers
+// are unavailable the selection is computed on the main thread instead.
+let worker: Worker | null | undefined;
+let postedRows: SpeciesData[] | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (selection: RowSelection) => void; rows: SpeciesData[]; params: SelectionParams }>();
+
+function getWorker(): Worker | null {
+  if (worker === undefined) {
+    try {
+      worker = new Worker(new URL('./rowWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<RowWorkerResponse>) => {
+        const { id, scoped, filtered } = event.data;
+        pending.get(id)?.resolve({ scoped, filtered });
+        pending.delete(id);
+      };
+      // A worker that fails (e.g. blocked by a content policy) is abandoned for good
+      worker.onerror = () => {
+        worker?.terminate();
+        worker = null;
+        pending.forEach(({ resolve, rows, params }) => resolve(computeSelection(rows, params)));
+        pending.clear();
+      };
+    } catch {
+      worker = null;
+    }
+  }
+  return worker;
+}
+
+export function selectRows(rows: SpeciesData[], params: SelectionParams): Promise<RowSelection> {
+  const target = getWorker();
+  if (!target) return Promise.resolve(computeSelection(rows, params));
+
+  if (rows !== postedRows) {
+    const message: RowWorkerRequest = { type: 'rows', rows };
+    target.postMessage(message);
+    postedRows = rows;
+  }
+  const id = nextId++;
+  const message: RowWorkerRequest = { type: 'select', id, params };
+  return new Promise(resolve => {
+    pending.set(id, { resolve, rows, params });
+    target.postMessage(message);
+  });
+}
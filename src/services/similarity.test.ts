@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { SpeciesData } from '../types';
+import { REGION_CODES, similarityMatrix, compareRegions, presenceQuery, absenceQuery } from './similarity';
+import { compileQuery } from './query';
+
+const taxon = (line: number, Specie: string, Sottospecie: string, regions: Record<string, string>) =>
+  ({ Dataset: 'test', Line: line, Genere: 'Nacerdes', Specie, Sottospecie, ...regions }) as unknown as SpeciesData;
+
+// Nacerdes carniolica: one subspecies in Sardinia only, the other in Sicily only
+const rows = [
+  taxon(2, 'carniolica', 'carniolica', { Sa: 'y' }),
+  taxon(3, 'carniolica', 'ragusae', { Si: 'y' }),
+  taxon(4, 'melanura', '', { Sa: 'y', Si: '?' })
+];
+
+const select = (query: string) => {
+  const compiled = compileQuery(query);
+  if (!compiled.ok || !compiled.predicate) throw new Error(`Bad query ${query}`);
+  return rows.filter(compiled.predicate);
+};
+
+describe('compareRegions', () => {
+  it('keeps subspecies recorded in different regions apart', () => {
+    const comparison = compareRegions(rows, 'Sa', 'Si', false);
+    expect(comparison.shared).toEqual([]);
+    expect(comparison.onlyA).toEqual([rows[0], rows[2]]);
+    expect(comparison.onlyB).toEqual([rows[1]]);
+  });
+
+  it('lists the same rows as the queries used to show them in the table', () => {
+    [false, true].forEach(includeDoubtful => {
+      const comparison = compareRegions(rows, 'Sa', 'Si', includeDoubtful);
+      const inA = presenceQuery('Sa', includeDoubtful);
+      const inB = presenceQuery('Si', includeDoubtful);
+      expect(select(`${inA} AND ${absenceQuery('Si', includeDoubtful)}`)).toEqual(comparison.onlyA);
+      expect(select(`${inA} AND ${inB}`)).toEqual(comparison.shared);
+      expect(select(`${absenceQuery('Sa', includeDoubtful)} AND ${inB}`)).toEqual(comparison.onlyB);
+    });
+  });
+});
+
+describe('similarityMatrix', () => {
+  it('counts the rows shared by two regions', () => {
+    const sa = REGION_CODES.indexOf('Sa');
+    const si = REGION_CODES.indexOf('Si');
+    expect(similarityMatrix(rows, 'jaccard', false)[sa][si]).toBe(0);
+    expect(similarityMatrix(rows, 'jaccard', true)[sa][si]).toBeCloseTo(1 / 3);
+    expect(similarityMatrix(rows, 'sorensen', true)[sa][si]).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,75 @@
+import { SpeciesData, REGIONS_MAP } from '../types';
+
+export type SimilarityMetric = 'jaccard' | 'sorensen';
+
+export interface RegionComparison {
+  shared: SpeciesData[];
+  onlyA: SpeciesData[];
+  onlyB: SpeciesData[];
+}
+
+export const REGION_CODES = Object.keys(REGIONS_MAP);
+
+const isRecorded = (row: SpeciesData, code: string, includeDoubtful: boolean) =>
+  row[code] === 'y' || (includeDoubtful && row[code] === '?');
+
+// Regions are compared by checklist row, the unit the table shows: a species
+// and each of its subspecies count separately, so the sets match the rows
+// that presenceQuery and absenceQuery select
+
+// Indices of the rows recorded in each region
+export function regionSets(data: SpeciesData[], includeDoubtful: boolean): Record<string, Set<number>> {
+  const sets: Record<string, Set<number>> = {};
+  REGION_CODES.forEach(code => {
+    sets[code] = new Set();
+    data.forEach((row, i) => {
+      if (isRecorded(row, code, includeDoubtful)) sets[code].add(i);
+    });
+  });
+  return sets;
+}
+
+export function similarity(a: Set<number>, b: Set<number>, metric: SimilarityMetric): number | null {
+  if (a.size === 0 && b.size === 0) return null;
+  let shared = 0;
+  a.forEach(i => { if (b.has(i)) shared++; });
+  return metric === 'jaccard'
+    ? shared / (a.size + b.size - shared)
+    : (2 * shared) / (a.size + b.size);
+}
+
+// Region x region matrix in REGION_CODES order; null where both regions are empty
+export function similarityMatrix(
+  data: SpeciesData[],
+  metric: SimilarityMetric,
+  includeDoubtful: boolean
+): (number | null)[][] {
+  const sets = regionSets(data, includeDoubtful);
+  return REGION_CODES.map(a => REGION_CODES.map(b => similarity(sets[a], sets[b], metric)));
+}
+
+export function compareRegions(
+  data: SpeciesData[],
+  a: string,
+  b: string,
+  includeDoubtful: boolean
+): RegionComparison {
+  const result: RegionComparison = { shared: [], onlyA: [], onlyB: [] };
+  data.forEach(row => {
+    const inA = isRecorded(row, a, includeDoubtful);
+    const inB = isRecorded(row, b, includeDoubtful);
+    if (inA && inB) result.shared.push(row);
+    else if (inA) result.onlyA.push(row);
+    else if (inB) result.onlyB.push(row);
+  });
+  return result;
+}
+
+// Query-language expressions (see services/query.ts) selecting the same sets in the table
+export function presenceQuery(code: string, includeDoubtful: boolean): string {
+  return includeDoubtful ? `(${code}=y OR ${code}=?)` : `${code}=y`;
+}
+
+export function absenceQuery(code: string, includeDoubtful: boolean): string {
+  return includeDoubtful ? `${code}!=y AND ${code}!=?` : `${code}!=y`;
+}
@@ -0,0 +1,79 @@
+import { SpeciesData, SortKey, DISTRIBUTION_COLUMNS, ORDER_COLUMN } from '../types';
+
+// Sort key standing for the conventional checklist order rather than a column
+export const SYSTEMATIC_SORT = 'systematic';
+
+export const SYSTEMATIC_ORDER: SortKey[] = [{ key: SYSTEMATIC_SORT, direction: 'asc' }];
+
+// Accent-aware, case-insensitive, with digit runs compared as numbers ("1.5" < "1.10")
+const collator = new Intl.Collator('it', { sensitivity: 'base', numeric: true });
+
+// Present before doubtful in ascending order; absent is an empty value
+const STATUS_RANK: Record<string, number> = { y: 0, '?': 1 };
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+// Direction-independent: empty values always sort after non-empty ones
+function compareValues(a: unknown, b: unknown, direction: SortKey['direction'], key: string): number {
+  const valA = text(a);
+  const valB = text(b);
+  if (!valA || !valB) return valA ? -1 : valB ? 1 : 0;
+
+  let result: number;
+  if (DISTRIBUTION_COLUMNS.includes(key)) {
+    result = (STATUS_RANK[valA] ?? 2) - (STATUS_RANK[valB] ?? 2);
+  } else if (typeof a === 'number' && typeof b === 'number') {
+    result = a - b;
+  } else {
+    result = collator.compare(valA, valB);
+  }
+  return direction === 'asc' ? result : -result;
+}
+
+// Within a genus or species: the unsplit taxon first, then the nominotypical
+// subtaxon (repeating the parent name), then the others alphabetically
+function compareSubordinate(a: string, b: string, parentA: string, parentB: string): number {
+  const rank = (value: string, parent: string) => (!value ? 0 : collator.compare(value, parent) === 0 ? 1 : 2);
+  return rank(a, parentA) - rank(b, parentB) || collator.compare(a, b);
+}
+
+const orderValue = (row: SpeciesData) => {
+  const value = text(row[ORDER_COLUMN]);
+  return value && Number.isFinite(Number(value)) ? Number(value) : null;
+};
+
+// Phylum → class → order → family, then the curator's ordering column if any,
+// then genus → subgenus → species → subspecies
+export function compareSystematic(a: SpeciesData, b: SpeciesData): number {
+  for (const rank of ["Phylum", "Classe", "Ordine", "Famiglia"]) {
+    const result = compareValues(a[rank], b[rank], 'asc', rank);
+    if (result !== 0) return result;
+  }
+
+  // Rows with a position come first, in that order
+  const orderA = orderValue(a);
+  const orderB = orderValue(b);
+  if (orderA !== null || orderB !== null) {
+    if (orderA === null) return 1;
+    if (orderB === null) return -1;
+    if (orderA !== orderB) return orderA - orderB;
+  }
+
+  return compareValues(a.Genere, b.Genere, 'asc', "Genere")
+    || compareSubordinate(text(a.Sottogenere), text(b.Sottogenere), text(a.Genere), text(b.Genere))
+    || compareValues(a.Specie, b.Specie, 'asc', "Specie")
+    || compareSubordinate(text(a.Sottospecie), text(b.Sottospecie), text(a.Specie), text(b.Specie));
+}
+
+// Comparator for a multi-key sort: later keys break ties left by earlier ones
+export function compareRows(sortConfig: SortKey[]) {
+  return (a: SpeciesData, b: SpeciesData): number => {
+    for (const { key, direction } of sortConfig) {
+      const result = key === SYSTEMATIC_SORT
+        ? compareSystematic(a, b) * (direction === 'asc' ? 1 : -1)
+        : compareValues(a[key], b[key], direction, key);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,83 @@
+import { SpeciesData, REGIONS_MAP } from '../types';
+
+// Endemic and alien taxa, flagged by any mark in the End and Alien columns
+// (the checklist uses "e" for endemics).
+
+export type SpeciesStatus = 'endemic' | 'alien';
+
+export const STATUS_COLUMNS: Record<SpeciesStatus, string> = {
+  endemic: "End",
+  alien: "Alien"
+};
+
+export const STATUS_LABELS: Record<SpeciesStatus, string> = {
+  endemic: 'Endemic',
+  alien: 'Alien'
+};
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+export const hasStatus = (row: SpeciesData, status: SpeciesStatus) => text(row[STATUS_COLUMNS[status]]) !== '';
+
+export const isEndemic = (row: SpeciesData) => hasStatus(row, 'endemic');
+export const isAlien = (row: SpeciesData) => hasStatus(row, 'alien');
+
+const REGION_CODES = Object.keys(REGIONS_MAP);
+
+// Territories with a present or doubtful record
+export const recordedRegions = (row: SpeciesData) =>
+  REGION_CODES.filter(code => row[code] === 'y' || row[code] === '?');
+
+export interface RegionStatusCounts {
+  code: string;
+  present: number;
+  endemic: number;
+  alien: number;
+  // Endemics recorded in this territory and no other
+  singleRegionEndemics: number;
+}
+
+// Per-territory counts over the species present ('y') in each territory; `codes`
+// may also list macro-region columns
+export function regionStatusCounts(rows: SpeciesData[], codes: string[] = REGION_CODES): RegionStatusCounts[] {
+  const counts = new Map(codes.map(code => [
+    code,
+    { code, present: 0, endemic: 0, alien: 0, singleRegionEndemics: 0 }
+  ]));
+  rows.forEach(row => {
+    const endemic = isEndemic(row);
+    const alien = isAlien(row);
+    codes.forEach(code => {
+      if (row[code] !== 'y') return;
+      const entry = counts.get(code)!;
+      entry.present++;
+      if (endemic) entry.endemic++;
+      if (alien) entry.alien++;
+    });
+    if (endemic) {
+      const regions = recordedRegions(row);
+      if (regions.length === 1 && counts.has(regions[0])) counts.get(regions[0])!.singleRegionEndemics++;
+    }
+  });
+  return [...counts.values()];
+}
+
+export interface SingleRegionEndemics {
+  code: string;
+  rows: SpeciesData[];
+}
+
+// Endemics with a record in exactly one territory of REGIONS_MAP, grouped by
+// territory in map order; a doubtful record elsewhere counts as a second territory
+export function singleRegionEndemics(rows: SpeciesData[]): SingleRegionEndemics[] {
+  const byRegion = new Map<string, SpeciesData[]>();
+  rows.filter(isEndemic).forEach(row => {
+    const regions = recordedRegions(row);
+    if (regions.length !== 1) return;
+    if (!byRegion.has(regions[0])) byRegion.set(regions[0], []);
+    byRegion.get(regions[0])!.push(row);
+  });
+  return REGION_CODES
+    .filter(code => byRegion.has(code))
+    .map(code => ({ code, rows: byRegion.get(code)! }));
+}
@@ -0,0 +1,151 @@
+import Papa from 'papaparse';
+import { DatasetInfo, MACRO_REGIONS, NEIGHBOURING_TERRITORIES } from '../types';
+
+// Generates a large, reproducible checklist in the source CSV layout, used to
+// exercise the table, the worker and the map at the scale of the full fauna
+// (~58,000 taxa). Enabled with SYNTHETIC_ROWS, see the README.
+
+const HEADER = [
+  "Phylum", "Classe", "Ordine", "Famiglia", "Sottofamiglia",
+  "Genere", "Autore e anno genere", "Sottogenere", "Autore e anno sottogenere",
+  "Specie", "Autore e anno specie", "Sottospecie", "Autore e anno sottospecie",
+  "Fauna Europaea (nome)", "WORMS (AphiaID)", "End", "Alien",
+  "N", "S", "Si", "Sa", "1", "2", "3", "4", "5", "6", "7", "8", "9",
+  "Ao", "Pi", "Lo", "VT", "V", "FVG", "Li", "ER", "To", "Ma", "Um", "La", "Abr", "Mo",
+  "Cp", "Pu", "Bas", "Cal", "RSM", "CV", "CT", "Cor", "M",
+  "Categorie Uccelli", "Corotipo",
+  "Note tassonomiche / Taxonomic notes", "Note distribuzione / Distribution notes"
+];
+
+// Mainland territories roughly north to south, so ranges form contiguous bands
+const MAINLAND = [
+  "CT", "Ao", "Pi", "Lo", "VT", "V", "FVG", "Li", "ER", "RSM", "To", "Ma", "Um",
+  "CV", "La", "Abr", "Mo", "Cp", "Pu", "Bas", "Cal"
+];
+const ISLANDS = ["Si", "Sa", "Cor", "M"];
+// Marine sectors around the peninsula from Trieste to Liguria; 4 (Sardinia) lies apart
+const COASTAL_SECTORS = ["9", "8", "7", "6", "4", "3", "2", "1"];
+
+const CLASSES: [string, string[]][] = [
+  ["Insecta", ["Coleoptera", "Diptera", "Hymenoptera", "Lepidoptera", "Hemiptera", "Orthoptera"]],
+  ["Arachnida", ["Araneae", "Acari", "Opiliones"]],
+  ["Malacostraca", ["Isopoda", "Amphipoda", "Decapoda"]],
+  ["Diplopoda", ["Julida", "Polydesmida"]]
+];
+
+const SYLLABLES = [
+  "ca", "ro", "li", "ne", "ta", "mi", "so", "pha", "dro", "ste", "ni", "cy", "bra",
+  "lo", "ma", "the", "gra", "pu", "te", "xo", "ri", "do", "ga", "phi", "chry", "an"
+];
+const GENUS_ENDINGS = ["us", "a", "ia", "ella", "odes", "ops", "ion"];
+const EPITHET_ENDINGS = ["ensis", "ica", "us", "i", "ae", "oides", "atus", "ella"];
+const AUTHORS = [
+  "Linnaeus", "Fabricius", "Latreille", "Dejean", "Schmidt", "Reitter", "Ganglbauer",
+  "Porta", "Costa", "Rossi", "Baudi", "Fiori", "Lucas", "Mulsant", "Schilsky"
+];
+const CHOROTYPES = ["1.01", "1.02", "1.05", "1.10", "2.01", "2.04", "3.01", "3.04", "4.01", "e"];
+
+// Small seeded PRNG (mulberry32): the same seed always yields the same checklist
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSyntheticCsv(rowCount: number, seed = 1): string {
+  const random = createRandom(seed);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const word = (syllables: number, endings: string[]) =>
+    Array.from({ length: syllables }, () => pick(SYLLABLES)).join('') + pick(endings);
+  const author = () => {
+    const text = `${pick(AUTHORS)}, ${1758 + Math.floor(random() * 260)}`;
+    return random() < 0.3 ? `(${text})` : text;
+  };
+
+  // About 100 taxa per family and 8 per genus, as in real checklists
+  const families = Array.from({ length: Math.max(1, Math.round(rowCount / 100)) }, () => {
+    const [classe, orders] = pick(CLASSES);
+    const name = word(2, ["idae"]).replace(/^./, c => c.toUpperCase());
+    return { classe, ordine: pick(orders), name, subfamily: name.replace(/idae$/, 'inae') };
+  });
+  const genera = Array.from({ length: Math.max(1, Math.round(rowCount / 8)) }, () => ({
+    family: pick(families),
+    name: word(2, GENUS_ENDINGS).replace(/^./, c => c.toUpperCase()),
+    author: author().replace(/[()]/g, '')
+  }));
+
+  const names = new Set<string>();
+  const rows: Record<string, string>[] = [];
+  while (rows.length < rowCount) {
+    const genus = pick(genera);
+    const species = word(2, EPITHET_ENDINGS);
+    const subspecies = random() < 0.15 ? word(2, EPITHET_ENDINGS) : '';
+    const name = `${genus.name} ${species} ${subspecies}`;
+    if (names.has(name)) continue;
+    names.add(name);
+
+    const row: Record<string, string> = Object.fromEntries(HEADER.map(col => [col, '']));
+    Object.assign(row, {
+      Phylum: "Arthropoda",
+      Classe: genus.family.classe,
+      Ordine: genus.family.ordine,
+      Famiglia: genus.family.name,
+      Sottofamiglia: genus.family.subfamily,
+      Genere: genus.name,
+      "Autore e anno genere": genus.author,
+      Specie: species,
+      "Autore e anno specie": author(),
+      Sottospecie: subspecies,
+      "Autore e anno sottospecie": subspecies ? author() : '',
+      End: random() < 0.08 ? 'e' : '',
+      Alien: random() < 0.02 ? 'a' : '',
+      Corotipo: pick(CHOROTYPES)
+    });
+
+    // A contiguous band of mainland territories, sometimes with islands
+    const start = Math.floor(random() * MAINLAND.length);
+    const width = 1 + Math.floor(random() * 10);
+    MAINLAND.slice(start, start + width).forEach(code => {
+      row[code] = random() < 0.9 ? 'y' : '?';
+    });
+    ISLANDS.forEach(code => {
+      if (random() < 0.2) row[code] = random() < 0.85 ? 'y' : '?';
+    });
+    // Crustaceans are partly marine: a band of sectors, sometimes with the Strait of Sicily
+    if (row.Classe === "Malacostraca" && random() < 0.4) {
+      const first = Math.floor(random() * COASTAL_SECTORS.length);
+      COASTAL_SECTORS.slice(first, first + 1 + Math.floor(random() * 5)).forEach(sector => {
+        row[sector] = random() < 0.9 ? 'y' : '?';
+      });
+      if (random() < 0.5) row["5"] = 'y';
+    }
+    // Macro-regions summarise their members, as validation expects
+    (["N", "S"] as const).forEach(macro => {
+      const members = MACRO_REGIONS[macro]
+        .filter(code => !NEIGHBOURING_TERRITORIES.includes(code))
+        .map(code => row[code]);
+      row[macro] = members.includes('y') ? 'y' : members.includes('?') ? '?' : '';
+    });
+
+    rows.push(row);
+  }
+
+  return Papa.unparse(rows, { columns: HEADER });
+}
+
+// Dataset entry appended to the manifest when synthetic data is enabled
+export function syntheticDataset(rowCount: number): DatasetInfo {
+  return {
+    id: 'synthetic',
+    file: `synthetic:${rowCount}`,
+    label: `Synthetic (${rowCount.toLocaleString('en')} rows)`,
+    taxon: { rank: "Phylum", name: "Arthropoda" },
+    version: 'generated',
+    curator: 'synthetic data'
+  };
+}
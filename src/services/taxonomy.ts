@@ -0,0 +1,86 @@
+import { SpeciesData, TAXON_RANKS, OPTIONAL_RANKS } from '../types';
+
+// One step of a path down the taxonomic hierarchy, e.g. { rank: "Famiglia", name: "Oedemeridae" }
+export interface CladeStep {
+  rank: string;
+  name: string;
+}
+
+export interface TaxonNode {
+  rank: string;
+  name: string;
+  path: CladeStep[];
+  children: TaxonNode[];
+  speciesCount: number;
+  subspeciesCount: number;
+}
+
+// Placeholder for rows that leave a mandatory rank blank
+export const UNPLACED = "incertae sedis";
+
+const value = (row: SpeciesData, rank: string) => String(row[rank] ?? '').trim();
+
+export const cladeKey = (path: CladeStep[]) =>
+  path.map(step => `${step.rank}:${step.name}`).join('/');
+
+function countTaxa(rows: SpeciesData[]) {
+  const species = new Set(rows.map(row => `${value(row, "Genere")} ${value(row, "Specie")}`));
+  return {
+    speciesCount: species.size,
+    subspeciesCount: rows.filter(row => value(row, "Sottospecie")).length
+  };
+}
+
+function buildLevel(rows: SpeciesData[], rankIndex: number, path: CladeStep[]): TaxonNode[] {
+  if (rankIndex >= TAXON_RANKS.length || rows.length === 0) return [];
+  const rank = TAXON_RANKS[rankIndex];
+  const optional = OPTIONAL_RANKS.includes(rank);
+
+  const groups = new Map<string, SpeciesData[]>();
+  const skipped: SpeciesData[] = [];
+  rows.forEach(row => {
+    const name = value(row, rank) || (optional ? '' : UNPLACED);
+    if (!name) {
+      skipped.push(row);
+      return;
+    }
+    const group = groups.get(name);
+    if (group) group.push(row);
+    else groups.set(name, [row]);
+  });
+
+  const nodes = Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, groupRows]) => {
+      const nodePath = [...path, { rank, name }];
+      return {
+        rank,
+        name,
+        path: nodePath,
+        children: buildLevel(groupRows, rankIndex + 1, nodePath),
+        ...countTaxa(groupRows)
+      };
+    });
+
+  // Rows without an optional rank (e.g. no subfamily) hang directly off the parent
+  return [...nodes, ...buildLevel(skipped, rankIndex + 1, path)];
+}
+
+export function buildTaxonTree(rows: SpeciesData[]): TaxonNode[] {
+  return buildLevel(rows, 0, []);
+}
+
+export function matchesClade(row: SpeciesData, clade: CladeStep[]): boolean {
+  return clade.every(step => (value(row, step.rank) || UNPLACED) === step.name);
+}
+
+// "Famiglia:Oedemeridae/Genere:Oedemera" <-> steps, used in links
+export function parseClade(text: string | null): CladeStep[] {
+  if (!text) return [];
+  return text.split('/')
+    .map(part => {
+      const separator = part.indexOf(':');
+      return { rank: part.slice(0, separator), name: part.slice(separator + 1) };
+    })
+    .filter(step => TAXON_RANKS.includes(step.rank) && step.name);
+}
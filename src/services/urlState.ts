@@ -0,0 +1,112 @@
+import { SortKey, ViewMode } from '../types';
+import { Filters } from './filters';
+import { CladeStep, cladeKey, parseClade } from './taxonomy';
+import { AVAILABLE_COLUMNS } from './columns';
+import { MapLayer, MapResolution, mapLayerKey, parseMapLayer } from './mapLayers';
+
+// Everything needed to reproduce a view from a link. Stored in the location hash
+// so it survives GitHub Pages, which only serves static files.
+export interface UrlState {
+  viewMode: ViewMode;
+  datasets: string[] | null; // null: every dataset in the manifest
+  filters: Filters;
+  query: string; // boolean query, see services/query.ts
+  clade: CladeStep[]; // taxon selected in the tree view
+  sortConfig: SortKey[];
+  columns: string[] | null; // null: default column set
+  species: string | null; // Nome Scientifico of the species open in the detail panel
+  mapLayer: MapLayer; // what the map colours territories by
+  mapResolution: MapResolution;
+  mapSea: boolean; // marine sectors drawn around the land
+}
+
+const FILTER_PREFIX = 'f.';
+const VIEW_MODES: ViewMode[] = ['table', 'map', 'tree', 'analysis', 'summary', 'versions'];
+
+const splitList = (value: string | null) =>
+  value ? value.split(',').map(v => v.trim()).filter(Boolean) : null;
+
+export function parseUrlState(hash: string): UrlState {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+
+  const filters: Filters = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(FILTER_PREFIX)) filters[key.slice(FILTER_PREFIX.length)] = value;
+  });
+
+  const view = params.get('view') as ViewMode;
+
+  return {
+    viewMode: VIEW_MODES.includes(view) ? view : 'table',
+    datasets: splitList(params.get('ds')),
+    filters,
+    query: params.get('q') || '',
+    clade: parseClade(params.get('clade')),
+    // "Genere,-Specie": ascending by genus, then descending by species
+    sortConfig: (splitList(params.get('sort')) || []).map(entry =>
+      entry.startsWith('-')
+        ? { key: entry.slice(1), direction: 'desc' as const }
+        : { key: entry, direction: 'asc' as const }
+    ),
+    columns: knownColumns(splitList(params.get('cols'))),
+    species: params.get('sp'),
+    mapLayer: parseMapLayer(params.get('layer')),
+    mapResolution: params.get('res') === 'macro' ? 'macro' : 'region',
+    mapSea: params.get('sea') === '1'
+  };
+}
+
+// Drops columns this version does not know; none left means the default set
+function knownColumns(columns: string[] | null): string[] | null {
+  const known = columns?.filter(col => AVAILABLE_COLUMNS.includes(col)) ?? [];
+  return known.length > 0 ? known : null;
+}
+
+export function serializeUrlState(state: UrlState): string {
+  const params = new URLSearchParams();
+
+  if (state.viewMode !== 'table') params.set('view', state.viewMode);
+  if (state.datasets) params.set('ds', state.datasets.join(','));
+
+  Object.entries(state.filters)
+    .filter(([, value]) => value)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([key, value]) => params.set(FILTER_PREFIX + key, value));
+
+  if (state.query) params.set('q', state.query);
+  if (state.clade.length > 0) params.set('clade', cladeKey(state.clade));
+
+  if (state.sortConfig.length > 0) {
+    params.set('sort', state.sortConfig
+      .map(({ key, direction }) => (direction === 'desc' ? '-' : '') + key)
+      .join(','));
+  }
+  if (state.columns) params.set('cols', state.columns.join(','));
+  if (state.species) params.set('sp', state.species);
+  const layer = mapLayerKey(state.mapLayer);
+  if (layer) params.set('layer', layer);
+  if (state.mapResolution === 'macro') params.set('res', 'macro');
+  if (state.mapSea) params.set('sea', '1');
+
+  const query = params.toString();
+  return query ? `#${query}` : '';
+}
+
+// Typing in a filter box should not leave one history entry per keystroke:
+// changes that follow each other quickly replace the current entry instead.
+const HISTORY_MERGE_MS = 1000;
+let lastWrite = 0;
+
+export function writeUrlState(state: UrlState, { replace = false } = {}) {
+  const hash = serializeUrlState(state);
+  if (hash === window.location.hash || (!hash && !window.location.hash)) return;
+
+  const url = `${window.location.pathname}${window.location.search}${hash}`;
+  const now = Date.now();
+  if (replace || now - lastWrite < HISTORY_MERGE_MS) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+  lastWrite = now;
+}
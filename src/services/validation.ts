@@ -0,0 +1,163 @@
+import {
+  SpeciesData,
+  DatasetInfo,
+  ValidationIssue,
+  IssueSeverity,
+  DISTRIBUTION_COLUMNS,
+  MARINE_SECTOR_COLUMNS,
+  RETAINED_COLUMNS,
+  SOURCE_ONLY_COLUMNS,
+  OPTIONAL_COLUMNS,
+  ORDER_COLUMN,
+  DERIVED_COLUMNS,
+  STATUS_VALUES
+} from '../types';
+import { MACRO_REGION_CODES, macroMembers, macroOf } from './macroRegions';
+
+export interface SourceRecord {
+  row: Record<string, string>;
+  line: number;
+}
+
+// Rows missing one of these are dropped by the loader
+const REQUIRED_FIELDS = ["Genere", "Specie"];
+// Rows missing one of these are kept but reported
+const EXPECTED_FIELDS = ["Phylum", "Classe", "Ordine", "Famiglia"];
+
+const EXPECTED_HEADERS = [
+  ...RETAINED_COLUMNS.filter(col => !DERIVED_COLUMNS.includes(col)),
+  ...SOURCE_ONLY_COLUMNS
+];
+
+export function normalizeStatus(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+export function validateHeaders(fields: string[], dataset: DatasetInfo): ValidationIssue[] {
+  const issue = (severity: IssueSeverity, message: string, column: string): ValidationIssue => ({
+    severity, message, column, dataset: dataset.id, file: dataset.file, line: 1
+  });
+  const trimmed = fields.map(f => f.trim());
+  const issues: ValidationIssue[] = [];
+
+  EXPECTED_HEADERS
+    .filter(col => !trimmed.includes(col))
+    .forEach(col => {
+      // Checklists of terrestrial groups may leave out the marine sectors
+      const required = REQUIRED_FIELDS.includes(col) ||
+        (DISTRIBUTION_COLUMNS.includes(col) && !MARINE_SECTOR_COLUMNS.includes(col));
+      issues.push(issue(required ? 'error' : 'warning', `Missing column "${col}"`, col));
+    });
+
+  trimmed
+    .filter(col => col && !EXPECTED_HEADERS.includes(col) && !OPTIONAL_COLUMNS.includes(col))
+    .forEach(col => issues.push(issue('warning', `Unknown column "${col}" will be ignored`, col)));
+
+  const seen = new Set<string>();
+  trimmed.forEach(col => {
+    if (seen.has(col)) issues.push(issue('error', `Column "${col}" appears more than once`, col));
+    seen.add(col);
+  });
+
+  return issues;
+}
+
+export function validateRecord({ row, line }: SourceRecord, dataset: DatasetInfo): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const issue = (severity: IssueSeverity, message: string, column?: string, value?: string) =>
+    issues.push({ severity, message, column, value, line, dataset: dataset.id, file: dataset.file });
+
+  if (Object.values(row).every(value => !String(value ?? '').trim())) {
+    issue('warning', 'Empty row is ignored');
+    return issues;
+  }
+
+  REQUIRED_FIELDS
+    .filter(col => !row[col]?.trim())
+    .forEach(col => issue('error', `Missing ${col}; the row is not loaded`, col));
+
+  EXPECTED_FIELDS
+    .filter(col => col in row && !row[col]?.trim())
+    .forEach(col => issue('warning', `Missing ${col}`, col));
+
+  const order = row[ORDER_COLUMN]?.trim();
+  if (order && !Number.isFinite(Number(order))) {
+    issue('warning', `${ORDER_COLUMN} "${order}" is not a number and is ignored when sorting`, ORDER_COLUMN, order);
+  }
+
+  DISTRIBUTION_COLUMNS.forEach(col => {
+    const raw = row[col];
+    if (raw === undefined) return;
+    const status = normalizeStatus(raw);
+    if (!STATUS_VALUES.includes(status)) {
+      issue('error', `Invalid status "${raw}" in ${col}; expected y, ? or blank`, col, raw);
+    } else if (status !== raw) {
+      issue('warning', `Non-canonical status "${raw}" in ${col}, read as "${status}"`, col, raw);
+    }
+  });
+
+  // Macro-region columns must agree with their member regions
+  MACRO_REGION_CODES.forEach(macro => {
+    const members = macroMembers(macro);
+    if (members.length === 0) return;
+    const macroStatus = normalizeStatus(row[macro]);
+    const memberStatuses = members.map(region => normalizeStatus(row[region]));
+
+    if (macroStatus === 'y' && !memberStatuses.includes('y')) {
+      issue('warning', `${macro} is present but none of its regions (${members.join(', ')}) are`, macro, row[macro]);
+    }
+    members.forEach((region, i) => {
+      if (memberStatuses[i] === 'y' && macroStatus !== 'y') {
+        issue('error', `${region} is present but its macro-region ${macroOf(region)} is not`, region, row[region]);
+      } else if (memberStatuses[i] === '?' && macroStatus === '') {
+        issue('warning', `${region} is doubtful but its macro-region ${macroOf(region)} is blank`, region, row[region]);
+      }
+    });
+  });
+
+  return issues;
+}
+
+// Reports scientific names that occur more than once in the loaded rows
+export function findDuplicateNames(rows: SpeciesData[]): ValidationIssue[] {
+  const byName = new Map<string, SpeciesData[]>();
+  rows.forEach(row => {
+    const name = row["Nome Scientifico"];
+    const group = byName.get(name);
+    if (group) group.push(row);
+    else byName.set(name, [row]);
+  });
+
+  const issues: ValidationIssue[] = [];
+  byName.forEach((group, name) => {
+    if (group.length < 2) return;
+    group.forEach((row, i) => {
+      if (i === 0) return;
+      const earlier = group.slice(0, i);
+      const sameDataset = earlier.some(other => other.Dataset === row.Dataset);
+      issues.push({
+        severity: sameDataset ? 'error' : 'warning',
+        message: sameDataset
+          ? `Duplicate scientific name "${name}"`
+          : `"${name}" is also listed in dataset ${group[0].Dataset}`,
+        column: "Nome Scientifico",
+        value: name,
+        dataset: row.Dataset,
+        file: row.File,
+        line: row.Line
+      });
+    });
+  });
+  return issues;
+}
+
+export function validateChecklist(
+  fields: string[],
+  records: SourceRecord[],
+  dataset: DatasetInfo
+): ValidationIssue[] {
+  return [
+    ...validateHeaders(fields, dataset),
+    ...records.flatMap(record => validateRecord(record, dataset))
+  ];
+}
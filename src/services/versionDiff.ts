@@ -0,0 +1,250 @@
+import * as d3 from 'd3';
+import { SpeciesData, DISTRIBUTION_COLUMNS } from '../types';
+import { CellChange, AUTHOR_COLUMNS, territoryName } from './curation';
+import { MapColoring, EMPTY_COLOR } from './mapLayers';
+
+// Differences between two releases of a checklist. Taxa are matched by
+// scientific name; taxa left over on both sides are matched as renamed when
+// they share their epithets and authority, which is how a move to another
+// genus shows up.
+
+export interface TaxonPair {
+  before: SpeciesData;
+  after: SpeciesData;
+}
+
+export interface AuthorityChange extends TaxonPair {
+  changes: CellChange[];
+}
+
+// What a distribution cell became: present, doubtful, or blank again
+export type StatusChangeKind = 'present' | 'doubtful' | 'removed';
+
+export interface StatusChange {
+  code: string;
+  before: string;
+  after: string;
+  kind: StatusChangeKind;
+}
+
+export interface DistributionChange extends TaxonPair {
+  changes: StatusChange[];
+}
+
+// Changed records in one territory; added and removed taxa are counted too
+export interface TerritoryChange {
+  code: string;
+  present: number;
+  doubtful: number;
+  removed: number;
+}
+
+export interface VersionDiff {
+  added: SpeciesData[];
+  removed: SpeciesData[];
+  renamed: TaxonPair[];
+  // Author columns, for taxa matched by name or renamed
+  authority: AuthorityChange[];
+  distribution: DistributionChange[];
+  // Every distribution column, in checklist order
+  territories: TerritoryChange[];
+}
+
+const text = (value: unknown) => String(value ?? '').trim();
+
+const statusChangeKind = (after: string): StatusChangeKind =>
+  after === '?' ? 'doubtful' : after ? 'present' : 'removed';
+
+function statusChanges(before: SpeciesData | null, after: SpeciesData | null): StatusChange[] {
+  return DISTRIBUTION_COLUMNS.flatMap(code => {
+    const was = text(before?.[code]);
+    const now = text(after?.[code]);
+    return was === now ? [] : [{ code, before: was, after: now, kind: statusChangeKind(now) }];
+  });
+}
+
+// Epithets and the authority without its parentheses, which change with the genus
+const renameKey = (row: SpeciesData) =>
+  [text(row.Specie), text(row.Sottospecie), text(row.Autore).replace(/^\((.*)\)$/, '$1')].join('|');
+
+// Pairs rows sharing a key, in checklist order; the rest are returned unmatched
+function matchBy(
+  before: SpeciesData[],
+  after: SpeciesData[],
+  key: (row: SpeciesData) => string,
+  unique: boolean
+) {
+  const byKey = d3.group(after, key);
+  const beforeCounts = d3.rollup(before, rows => rows.length, key);
+  const pairs: TaxonPair[] = [];
+  const unmatched: SpeciesData[] = [];
+  const taken = new Set<SpeciesData>();
+  before.forEach(row => {
+    const candidates = byKey.get(key(row)) ?? [];
+    if (unique && (candidates.length !== 1 || beforeCounts.get(key(row)) !== 1)) {
+      unmatched.push(row);
+      return;
+    }
+    const match = candidates.find(candidate => !taken.has(candidate));
+    if (!match) {
+      unmatched.push(row);
+      return;
+    }
+    taken.add(match);
+    pairs.push({ before: row, after: match });
+  });
+  return { pairs, unmatchedBefore: unmatched, unmatchedAfter: after.filter(row => !taken.has(row)) };
+}
+
+export function diffVersions(before: SpeciesData[], after: SpeciesData[]): VersionDiff {
+  const byName = matchBy(before, after, row => text(row["Nome Scientifico"]), false);
+  const byEpithet = matchBy(byName.unmatchedBefore, byName.unmatchedAfter, renameKey, true);
+  const matched = [...byName.pairs, ...byEpithet.pairs];
+
+  const authority = matched.flatMap(pair => {
+    const changes = AUTHOR_COLUMNS
+      .filter(col => text(pair.before[col]) !== text(pair.after[col]))
+      .map(col => ({ column: col, before: text(pair.before[col]), after: text(pair.after[col]) }));
+    return changes.length > 0 ? [{ ...pair, changes }] : [];
+  });
+
+  const distribution = matched.flatMap(pair => {
+    const changes = statusChanges(pair.before, pair.after);
+    return changes.length > 0 ? [{ ...pair, changes }] : [];
+  });
+
+  const counts = new Map(DISTRIBUTION_COLUMNS.map(code => [code, { code, present: 0, doubtful: 0, removed: 0 }]));
+  [
+    ...distribution.flatMap(change => change.changes),
+    ...byEpithet.unmatchedAfter.flatMap(row => statusChanges(null, row)),
+    ...byEpithet.unmatchedBefore.flatMap(row => statusChanges(row, null))
+  ].forEach(change => { counts.get(change.code)![change.kind]++; });
+
+  return {
+    added: byEpithet.unmatchedAfter,
+    removed: byEpithet.unmatchedBefore,
+    renamed: byEpithet.pairs,
+    authority,
+    distribution,
+    territories: [...counts.values()]
+  };
+}
+
+export const hasChanges = (diff: VersionDiff) =>
+  diff.added.length + diff.removed.length + diff.renamed.length + diff.authority.length + diff.distribution.length > 0;
+
+const GAIN_COLOR = '#15803d';
+const LOSS_COLOR = '#B31529';
+const MIXED_COLOR = '#d97706';
+
+// Territories by net change in records: greener for gains, redder for losses,
+// amber where gains and losses cancel out
+export function changeColoring(territories: TerritoryChange[]): MapColoring {
+  const byCode = new Map(territories.map(entry => [entry.code, entry]));
+  const net = (entry: TerritoryChange) => entry.present - entry.removed;
+  const max = Math.max(...territories.map(entry => Math.abs(net(entry))), 1);
+  const shade = (color: string, value: number) => d3.interpolateRgb(EMPTY_COLOR, color)(0.3 + 0.7 * value / max);
+
+  return {
+    getColor: code => {
+      const entry = byCode.get(code);
+      if (!entry || entry.present + entry.doubtful + entry.removed === 0) return EMPTY_COLOR;
+      const n = net(entry);
+      if (n > 0) return shade(GAIN_COLOR, n);
+      if (n < 0) return shade(LOSS_COLOR, -n);
+      return MIXED_COLOR;
+    },
+    legend: {
+      type: 'categorical',
+      title: 'Change in records',
+      items: [
+        { label: 'Net gain', color: GAIN_COLOR },
+        { label: 'Net loss', color: LOSS_COLOR },
+        { label: 'Gains and losses even', color: MIXED_COLOR },
+        { label: 'No change', color: EMPTY_COLOR }
+      ]
+    },
+    valueLabel: 'New · doubtful · removed',
+    describe: code => {
+      const entry = byCode.get(code);
+      return entry ? `+${entry.present} · ?${entry.doubtful} · −${entry.removed}` : 'No change';
+    }
+  };
+}
+
+const STATUS_CHANGE_LABELS: Record<StatusChangeKind, string> = {
+  present: 'Newly present',
+  doubtful: 'Newly doubtful',
+  removed: 'Removed'
+};
+
+const nameWithAuthor = (row: SpeciesData) => [`*${row["Nome Scientifico"]}*`, text(row.Autore)].filter(Boolean).join(' ');
+
+const quote = (value: string) => (value ? `"${value}"` : '(blank)');
+
+export interface ReleaseInfo {
+  title: string;
+  before: string;
+  after: string;
+  date: string;
+}
+
+// Markdown release notes, most significant changes first
+export function toReleaseNotes(diff: VersionDiff, release: ReleaseInfo): string {
+  const changedRecords = diff.territories.reduce(
+    (sum, entry) => ({ present: sum.present + entry.present, doubtful: sum.doubtful + entry.doubtful, removed: sum.removed + entry.removed }),
+    { present: 0, doubtful: 0, removed: 0 }
+  );
+  const lines = [
+    `# ${release.title}: changes from ${release.before} to ${release.after}`,
+    '',
+    release.date,
+    '',
+    '## Summary',
+    '',
+    `- ${diff.added.length} taxa added, ${diff.removed.length} removed, ${diff.renamed.length} renamed`,
+    `- ${diff.authority.length} authority changes`,
+    `- ${diff.distribution.length} taxa with distribution changes; across all taxa ${changedRecords.present} new records, ${changedRecords.doubtful} newly doubtful, ${changedRecords.removed} removed`
+  ];
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push('', `## ${title}`, '', ...items);
+  };
+
+  section('Added taxa', diff.added.map(row => `- ${nameWithAuthor(row)}`));
+  section('Removed taxa', diff.removed.map(row => `- ${nameWithAuthor(row)}`));
+  section('Name changes', diff.renamed.map(({ before, after }) => `- ${nameWithAuthor(before)} → ${nameWithAuthor(after)}`));
+  section('Authority changes', diff.authority.map(({ after, changes }) =>
+    `- *${after["Nome Scientifico"]}*: ${changes.map(change => `${change.column} ${quote(change.before)} → ${quote(change.after)}`).join('; ')}`
+  ));
+
+  if (diff.distribution.length > 0) {
+    lines.push('', '## Distribution changes');
+    diff.distribution.forEach(({ after, changes }) => {
+      lines.push('', `### *${after["Nome Scientifico"]}*`, '');
+      (Object.keys(STATUS_CHANGE_LABELS) as StatusChangeKind[]).forEach(kind => {
+        const codes = changes.filter(change => change.kind === kind).map(change => territoryName(change.code) ?? change.code);
+        if (codes.length > 0) lines.push(`- ${STATUS_CHANGE_LABELS[kind]}: ${codes.join(', ')}`);
+      });
+    });
+  }
+
+  const changedTerritories = diff.territories.filter(entry => entry.present + entry.doubtful + entry.removed > 0);
+  if (changedTerritories.length > 0) {
+    lines.push(
+      '',
+      '## Changes by territory',
+      '',
+      'Added and removed taxa are included.',
+      '',
+      '| Territory | New records | Newly doubtful | Removed |',
+      '| --- | ---: | ---: | ---: |',
+      ...changedTerritories.map(entry =>
+        `| ${territoryName(entry.code) ?? entry.code} | ${entry.present} | ${entry.doubtful} | ${entry.removed} |`
+      )
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -11,6 +11,10 @@ export interface SpeciesData {
   Sottospecie?: string;
   "Autore": string;
   "Nome Scientifico": string;
+  // Provenance: dataset id, source file and 1-based line the row was loaded from
+  Dataset: string;
+  File: string;
+  Line: number;
   // Macro-regions
   N: string;
   S: string;
@@ -40,9 +44,48 @@ export interface SpeciesData {
   CT: string;
   Cor: string;
   M: string;
+  // Marine sectors
+  "1": string;
+  "2": string;
+  "3": string;
+  "4": string;
+  "5": string;
+  "6": string;
+  "7": string;
+  "8": string;
+  "9": string;
   [key: string]: any;
 }
 
+export interface DatasetInfo {
+  id: string;
+  file: string;
+  label: string;
+  taxon: { rank: string; name: string };
+  version: string;
+  curator: string;
+}
+
+export type ViewMode = 'table' | 'map' | 'tree' | 'analysis' | 'summary' | 'versions';
+
+export interface SortKey {
+  key: string;
+  direction: 'asc' | 'desc';
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  message: string;
+  dataset: string;
+  file: string;
+  // 1-based line in the source file; omitted for file-level issues
+  line?: number;
+  column?: string;
+  value?: string;
+}
+
 export const REGIONS_MAP: Record<string, string> = {
   Ao: "Valle d'Aosta",
   Pi: "Piemonte",
@@ -78,11 +121,46 @@ export const MACRO_REGIONS = {
   Sa: ["Sa"],
 };
 
+export const MACRO_REGION_NAMES: Record<string, string> = {
+  N: "Italia settentrionale",
+  S: "Italia peninsulare",
+  Si: "Sicilia",
+  Sa: "Sardegna",
+};
+
+// The nine sectors into which the Italian seas are divided for faunistic records
+// (Società Italiana di Biologia Marina), stored in the columns "1" to "9"
+export const MARINE_SECTORS: Record<string, string> = {
+  "1": "Mar Ligure",
+  "2": "Tirreno centro-settentrionale",
+  "3": "Tirreno meridionale",
+  "4": "Stretto di Messina",
+  "5": "Canale di Sicilia",
+  "6": "Mar Ionio",
+  "7": "Adriatico meridionale",
+  "8": "Adriatico centrale",
+  "9": "Adriatico settentrionale",
+};
+
+export const MARINE_SECTOR_COLUMNS = Object.keys(MARINE_SECTORS);
+
+export const TAXON_RANKS = [
+  "Phylum", "Classe", "Ordine", "Famiglia", "Sottofamiglia",
+  "Genere", "Sottogenere", "Specie", "Sottospecie"
+];
+
+// Ranks that may be left blank; rows without them attach to the rank above
+export const OPTIONAL_RANKS = ["Sottofamiglia", "Sottogenere", "Sottospecie"];
+
+// Territories outside Italy covered by the checklist; a record there does not imply its macro-region
+export const NEIGHBOURING_TERRITORIES = ["CT", "Cor", "M"];
+
 export const DISTRIBUTION_COLUMNS = [
   "N", "S", "Si", "Sa",
   "Ao", "Pi", "Lo", "VT", "V", "FVG", "Li", "ER",
   "To", "Ma", "Um", "La", "Abr", "Mo", "Cp", "Pu",
-  "Bas", "Cal", "RSM", "CV", "CT", "Cor", "M"
+  "Bas", "Cal", "RSM", "CV", "CT", "Cor", "M",
+  ...MARINE_SECTOR_COLUMNS
 ];
 
 export const RETAINED_COLUMNS = [
@@ -98,5 +176,33 @@ export const RETAINED_COLUMNS = [
   "Sottospecie",
   "End",
   "Alien",
+  "Dataset",
   ...DISTRIBUTION_COLUMNS
 ];
+
+// Columns of the checklist CSV that are read but not shown as table columns
+export const SOURCE_ONLY_COLUMNS = [
+  "Sottogenere",
+  "Autore e anno genere",
+  "Autore e anno sottogenere",
+  "Autore e anno specie",
+  "Autore e anno sottospecie",
+  "Fauna Europaea (nome)",
+  "WORMS (AphiaID)",
+  "Categorie Uccelli",
+  "Corotipo",
+  "Note tassonomiche / Taxonomic notes",
+  "Note distribuzione / Distribution notes"
+];
+
+// Optional curator-supplied position within the family, used by the systematic sort
+export const ORDER_COLUMN = "Ordinamento";
+
+// Recognised when present, never reported when missing
+export const OPTIONAL_COLUMNS = [ORDER_COLUMN];
+
+// Columns computed while loading, never present in the CSV itself
+export const DERIVED_COLUMNS = ["Nome Scientifico", "Autore", "Dataset", "File", "Line"];
+
+// Allowed values in distribution cells: present, doubtful, absent
+export const STATUS_VALUES = ["y", "?", ""];
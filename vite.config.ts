@@ -1,15 +1,55 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import {createHash} from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import {defineConfig, loadEnv} from 'vite';
+import {defineConfig, loadEnv, Plugin} from 'vite';
 
-export default defineConfig(({mode}) => {
+// Writes sw.js from src/serviceWorker.js with the files to precache: every file
+// of the build and of public/ (datasets, map geometry, icons). The cache version
+// is a hash of their contents, so publishing a new checklist makes a new worker.
+function serviceWorker(): Plugin {
+  let publicDir = '';
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256');
+      const publicFiles = publicDir && fs.existsSync(publicDir)
+        ? fs.readdirSync(publicDir, {recursive: true, withFileTypes: true})
+          .filter(entry => entry.isFile())
+          .map(entry => path.relative(publicDir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+          .sort()
+        : [];
+      publicFiles.forEach(file => hash.update(file).update(fs.readFileSync(path.join(publicDir, file))));
+      Object.values(bundle).forEach(output => {
+        hash.update(output.fileName).update(output.type === 'chunk' ? output.code : output.source);
+      });
+
+      const files = [...Object.keys(bundle), ...publicFiles].filter(file => file !== 'sw.js' && !file.endsWith('.map'));
+      const source = fs.readFileSync(path.resolve(__dirname, 'src/serviceWorker.js'), 'utf-8')
+        .replace('__CACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+        .replace('__PRECACHE_FILES__', JSON.stringify(files.map(file => `./${file}`)));
+      this.emitFile({type: 'asset', fileName: 'sw.js', source});
+    },
+  };
+}
+
+export default defineConfig(({mode, command}) => {
   const env = loadEnv(mode, '.', '');
   return {
     base: '/fauna_italia_viewer/', // Correctly placed inside the return object
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), serviceWorker()],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.SYNTHETIC_ROWS': JSON.stringify(env.SYNTHETIC_ROWS || ''),
+      'process.env.DATA_API_URL': JSON.stringify(env.DATA_API_URL || ''),
+      // Registered in builds only; the dev server always serves the sources
+      'process.env.SERVICE_WORKER': JSON.stringify(command === 'build' ? './sw.js' : ''),
     },
     resolve: {
       alias: {
@@ -18,6 +58,10 @@ export default defineConfig(({mode}) => {
     },
     server: {
       hmr: process.env.DISABLE_HMR !== 'true',
+      // The API server (npm run server) during development with DATA_API_URL=/api
+      proxy: {
+        '/api': `http://localhost:${env.API_PORT || 3001}`,
+      },
     },
   };
-});
\ No newline at end of file
+});